@@ -31,7 +31,17 @@ module.exports = {
     // General code quality
     'prefer-const': 'error',
     'no-var': 'error',
-    'no-console': 'warn',
+    // Errors still reach the console in production; diagnostics go through devLog
+    'no-console': ['warn', { allow: ['error'] }],
     'no-unused-vars': 'off', // Handled by TypeScript
   },
+  overrides: [
+    {
+      // The DEV-gated logger is the one place development diagnostics reach the console
+      files: ['src/utils/dev-log.ts'],
+      rules: {
+        'no-console': 'off',
+      },
+    },
+  ],
 };
\ No newline at end of file
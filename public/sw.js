@@ -0,0 +1,104 @@
+/**
+ * Service worker for the installable app (advanced.enablePWA)
+ * The build fills in CACHE_VERSION and PRECACHE_URLS from the configuration and the
+ * built assets (scripts/prerender.js); the dev server serves this copy as is.
+ */
+
+const CACHE_PREFIX = 'linktree-';
+const CACHE_VERSION = 'dev';
+const PRECACHE_URLS = ['/'];
+
+const CACHE_NAME = `${CACHE_PREFIX}${CACHE_VERSION}`;
+const PRECACHED = new Set(PRECACHE_URLS.map(url => new URL(url, self.location.origin).href));
+
+/**
+ * Stores a response; cross-origin images such as the avatar are cached as opaque responses
+ */
+async function cacheResponse(cache, request, response) {
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+
+    // One missing file (e.g. no /config.json) must not prevent the install
+    await Promise.all(PRECACHE_URLS.map(async (url) => {
+      const sameOrigin = new URL(url, self.location.origin).origin === self.location.origin;
+      const request = new Request(url, sameOrigin ? {} : { mode: 'no-cors' });
+      try {
+        await cacheResponse(cache, request, await fetch(request));
+      } catch {
+        // Retried on the next install
+      }
+    }));
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+        .map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+/**
+ * Network first for the page and its configuration, which change without a new build
+ */
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    await cacheResponse(cache, request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true }) ||
+      (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cache first for built assets and images, whose URLs change when their content does
+ */
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  await cacheResponse(cache, request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/'));
+  } else if (sameOrigin && url.pathname === '/config.json') {
+    event.respondWith(networkFirst(request));
+  } else if (sameOrigin || PRECACHED.has(url.href)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
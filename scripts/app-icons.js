@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+
+// Renders the square PNG app icons the web app manifest lists, from the first source image that
+// can be read: a path on the site (read from the build output) or an http(s) URL
+
+// A remote image that doesn't answer in time is skipped like one that fails
+const FETCH_TIMEOUT_MS = 10000;
+
+async function readSource(src, outDir) {
+  if (/^https?:\/\//i.test(src)) {
+    const response = await fetch(src, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const file = path.resolve(outDir, `.${src.split(/[?#]/)[0]}`);
+  if (!file.startsWith(`${path.resolve(outDir)}${path.sep}`)) {
+    throw new Error('not a path on this site');
+  }
+  return fs.readFileSync(file);
+}
+
+async function renderIcon(source, size, file) {
+  // SVGs are rasterized at the target size rather than scaled up from their nominal one
+  const { format, width = size, height = size } = await sharp(source).metadata();
+  const density = format === 'svg' ? Math.ceil((72 * size) / Math.min(width, height)) : undefined;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  await sharp(source, density ? { density } : {})
+    .resize(size, size, { fit: 'cover' })
+    .png()
+    .toFile(file);
+}
+
+/**
+ * Writes every icon below outDir and returns the source it was rendered from
+ */
+export async function renderAppIcons({ sources, icons }, outDir) {
+  const failures = [];
+
+  for (const src of sources) {
+    try {
+      const source = await readSource(src, outDir);
+      for (const icon of icons) {
+        await renderIcon(source, icon.size, path.join(outDir, `.${icon.url}`));
+      }
+      return src;
+    } catch (error) {
+      failures.push(`${src}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  throw new Error(`Could not render the app icons from any source:\n  ${failures.join('\n  ')}`);
+}
@@ -1,5 +1,8 @@
-const fs = require('fs');
-const path = require('path');
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 // Read site.config.json (will be written by API during fork)
 const configPath = path.join(__dirname, '../site.config.json');
@@ -8,7 +11,10 @@ const publicConfigPath = path.join(__dirname, '../public/config.json');
 if (fs.existsSync(configPath)) {
   const siteConfig = fs.readFileSync(configPath, 'utf8');
 
-  // Write to public/config.json for the app to consume
+  // Fail the build early instead of shipping a config the app cannot parse
+  JSON.parse(siteConfig);
+
+  // Write to public/config.json, served at /config.json where the app fetches it
   fs.writeFileSync(publicConfigPath, siteConfig);
 
   console.log('✓ Applied site configuration');
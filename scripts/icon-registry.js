@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+
+// Vite plugin generating the `virtual:icon-registry` module: the Lucide icons the configuration
+// refers to, imported by name so the rest of lucide-react is tree-shaken out of the bundle
+
+const VIRTUAL_MODULE_ID = 'virtual:icon-registry';
+const RESOLVED_MODULE_ID = `\0${VIRTUAL_MODULE_ID}`;
+
+// Configuration documents the client can load: the applied site config and the embedded config
+const CONFIG_FILES = ['public/config.json', 'src/config.json'];
+
+// Same format LinkIcon accepts for Lucide names, e.g. "book-open"
+const ICON_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+const require = createRequire(import.meta.url);
+
+function toPascalCase(name) {
+  return name
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+// Every string under an "icon" key, wherever it appears in the document
+function collectIconValues(value, names) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectIconValues(item, names));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'icon' && typeof child === 'string') {
+        names.add(child.trim());
+      } else {
+        collectIconValues(child, names);
+      }
+    }
+  }
+  return names;
+}
+
+function readIconNames(root, warn) {
+  const names = new Set();
+  for (const file of CONFIG_FILES) {
+    const configPath = path.join(root, file);
+    if (!fs.existsSync(configPath)) {
+      continue;
+    }
+    try {
+      collectIconValues(JSON.parse(fs.readFileSync(configPath, 'utf8')), names);
+    } catch (error) {
+      warn(`Could not read icons from ${file}: ${error.message}`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Builds the registry module source. Names that aren't Lucide icons (brand icons, emoji,
+ * image URLs) are left to LinkIcon, which resolves them without the registry.
+ */
+function generateRegistry(root, warn) {
+  const lucide = require('lucide-react');
+  const icons = Array.from(readIconNames(root, warn))
+    .filter(name => ICON_NAME_PATTERN.test(name) && typeof lucide[toPascalCase(name)] === 'object')
+    .sort()
+    .map(name => ({ name, exportName: toPascalCase(name) }));
+
+  if (icons.length === 0) {
+    return 'export default {};\n';
+  }
+
+  return [
+    `import { ${icons.map(icon => icon.exportName).join(', ')} } from 'lucide-react';`,
+    '',
+    'export default {',
+    ...icons.map(icon => `  ${JSON.stringify(icon.name)}: ${icon.exportName},`),
+    '};',
+    ''
+  ].join('\n');
+}
+
+export default function iconRegistry() {
+  let root = process.cwd();
+
+  return {
+    name: 'linktree-icon-registry',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_MODULE_ID ? RESOLVED_MODULE_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_MODULE_ID) {
+        return null;
+      }
+      CONFIG_FILES.forEach(file => this.addWatchFile(path.join(root, file)));
+      return generateRegistry(root, message => this.warn(message));
+    },
+
+    // Regenerate the registry when a configuration file changes during development
+    configureServer(server) {
+      const configPaths = CONFIG_FILES.map(file => path.join(root, file));
+      server.watcher.add(configPaths);
+      server.watcher.on('change', changedPath => {
+        if (!configPaths.includes(path.resolve(changedPath))) {
+          return;
+        }
+        const module = server.moduleGraph.getModuleById(RESOLVED_MODULE_ID);
+        if (module) {
+          server.moduleGraph.invalidateModule(module);
+          server.ws.send({ type: 'full-reload' });
+        }
+      });
+    },
+  };
+}
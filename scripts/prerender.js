@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { renderAppIcons } from './app-icons.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Output of `vite build` and `vite build --ssr src/entry-server.tsx --outDir dist-ssr`
+const distPath = path.join(__dirname, '../dist');
+const ssrPath = path.join(__dirname, '../dist-ssr');
+const templatePath = path.join(distPath, 'index.html');
+const notFoundPath = path.join(distPath, '404.html');
+const manifestPath = path.join(distPath, 'site.webmanifest');
+const serviceWorkerPath = path.join(distPath, 'sw.js');
+const assetsPath = path.join(distPath, 'assets');
+
+// Same precedence the client uses: applied site config first, then the embedded config
+const configCandidates = [
+  path.join(__dirname, '../public/config.json'),
+  path.join(__dirname, '../src/config.json'),
+];
+
+const configPath = configCandidates.find(candidate => fs.existsSync(candidate));
+const rawConfig = configPath ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+
+try {
+  const {
+    renderPage,
+    renderNotFoundPage,
+    renderManifest,
+    renderServiceWorker,
+    getAppIcons,
+    getPagePaths,
+    getSkippedProfiles,
+  } = await import(pathToFileURL(path.join(ssrPath, 'entry-server.js')).href);
+  const template = fs.readFileSync(templatePath, 'utf8');
+
+  for (const slug of getSkippedProfiles(rawConfig)) {
+    console.warn(
+      `⚠ Skipped profile "${slug}": keys must be lowercase letters, digits and dashes, ` +
+      'not edit, assets or 404, and each profile must be an object'
+    );
+  }
+
+  // The home page replaces the template, so every page is rendered from the template read above
+  const pages = getPagePaths(rawConfig).map(pagePath => ({
+    file: pagePath ? path.join(distPath, pagePath, 'index.html') : templatePath,
+    html: renderPage(template, rawConfig, pagePath),
+  }));
+  pages.push({ file: notFoundPath, html: renderNotFoundPage(template, rawConfig) });
+  const manifest = renderManifest(rawConfig);
+
+  for (const page of pages) {
+    fs.mkdirSync(path.dirname(page.file), { recursive: true });
+    fs.writeFileSync(page.file, page.html);
+  }
+  fs.writeFileSync(manifestPath, manifest);
+  const iconSource = await renderAppIcons(getAppIcons(rawConfig), distPath);
+
+  console.log(
+    `✓ Pre-rendered ${pages.map(page => path.relative(distPath, page.file)).join(', ')} ` +
+    `from ${configPath ? path.relative(process.cwd(), configPath) : 'defaults'}`
+  );
+
+  // Asset file names carry content hashes, so together with the pages they identify the build.
+  // Font files are left out: only the theme font is precached, the others are cached if ever used.
+  const assetUrls = fs.existsSync(assetsPath)
+    ? fs.readdirSync(assetsPath).filter(file => !file.endsWith('.woff2')).sort().map(file => `/assets/${file}`)
+    : [];
+  const hash = crypto.createHash('sha256');
+  pages.forEach(page => hash.update(page.html));
+  const version = hash
+    .update(manifest)
+    .update(assetUrls.join('\n'))
+    .digest('hex')
+    .slice(0, 12);
+
+  const serviceWorker = fs.readFileSync(serviceWorkerPath, 'utf8');
+  fs.writeFileSync(serviceWorkerPath, renderServiceWorker(serviceWorker, rawConfig, assetUrls, version));
+
+  console.log(`✓ Generated site.webmanifest, app icons from ${iconSource} and sw.js (cache ${version})`);
+} finally {
+  fs.rmSync(ssrPath, { recursive: true, force: true });
+}
@@ -3,55 +3,50 @@
  */
 
 import React from 'react';
-import { Layout } from './components/Layout';
-import { Profile } from './components/Profile';
-import { LinkButton } from './components/LinkButton';
-import { ThemeProvider } from './components/ThemeProvider';
-import { loadConfig } from './utils/config-loader';
-import type { LinkTreeConfig } from './types/config';
+import { ThemeProvider, useTheme } from './components/ThemeProvider';
+import { LinkTreePage } from './components/LinkTreePage';
+import { NotFoundPage } from './components/NotFoundPage';
+import type { ConfigDocument } from './types/config';
 
-function App() {
-  const [config, setConfig] = React.useState<LinkTreeConfig | null>(null);
-  const [loading, setLoading] = React.useState(true);
+// The editor is only downloaded when /edit is opened
+const ConfigEditor = React.lazy(() => import('./components/ConfigEditor'));
 
-  React.useEffect(() => {
-    loadConfig().then(data => {
-      setConfig(data);
-      setLoading(false);
-    }).catch(() => {
-      setLoading(false);
-    });
-  }, []);
+interface AppProps {
+  /** Configuration document supplied by the pre-renderer or hydration entry */
+  initialDocument?: ConfigDocument;
+  /** Route path to render instead of the browser location, used by the pre-renderer */
+  path?: string;
+  /** Render the configuration editor with a live preview instead of the page */
+  editMode?: boolean;
+}
 
-  if (loading || !config) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-white dark:bg-gray-900">
-        <div className="text-center space-y-4">
-          <div className="loading-spinner mx-auto" />
-          <p className="text-gray-600 dark:text-gray-400">Loading...</p>
-        </div>
-      </div>
-    );
-  }
+/**
+ * Page for the current route: the home page or a profile, or the not-found page
+ */
+function RoutePage() {
+  const { route } = useTheme();
+  return route.type === 'not-found' ? <NotFoundPage /> : <LinkTreePage />;
+}
 
+function App({ initialDocument, path, editMode = false }: AppProps) {
   return (
-    <ThemeProvider>
-      <Layout config={config}>
-        <div className="w-full max-w-md mx-auto space-y-8">
-          <Profile profile={config.profile} />
-          <div className="links-container space-y-4">
-            {config.links.map((link, index) => (
-              <LinkButton
-                key={index}
-                link={link}
-                theme={config.theme}
-              />
-            ))}
-          </div>
-        </div>
-      </Layout>
+    // The editor always works on the home page configuration
+    <ThemeProvider initialDocument={initialDocument} path={editMode ? '' : path}>
+      {editMode ? (
+        <React.Suspense
+          fallback={
+            <div className="min-h-screen flex items-center justify-center">
+              <div className="loading-spinner" />
+            </div>
+          }
+        >
+          <ConfigEditor />
+        </React.Suspense>
+      ) : (
+        <RoutePage />
+      )}
     </ThemeProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
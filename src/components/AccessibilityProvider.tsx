@@ -0,0 +1,217 @@
+/**
+ * AccessibilityProvider component for the accessibility settings and the visitor's panel
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Accessibility } from 'lucide-react';
+import {
+  ACCESSIBILITY_MEDIA_QUERIES,
+  ACCESSIBILITY_PREFERENCE_KEYS,
+  getSystemAccessibilityPreferences,
+  loadAccessibilityPreferences,
+  resolveAccessibilitySettings,
+  saveAccessibilityPreferences
+} from '@/utils/accessibility';
+import type {
+  AccessibilityConfig,
+  AccessibilityPreferenceKey,
+  AccessibilityPreferences
+} from '@/types/config';
+
+interface AccessibilityContextValue {
+  /** Effective settings after the visitor's choices and system settings are applied */
+  settings: AccessibilityConfig;
+  preferences: AccessibilityPreferences;
+  /** Sets a visitor choice; undefined goes back to the config and system setting */
+  setPreference: (key: AccessibilityPreferenceKey, value: boolean | undefined) => void;
+}
+
+// Without a provider every feature is off
+const AccessibilityContext = createContext<AccessibilityContextValue>({
+  settings: {
+    highContrast: false,
+    reducedMotion: false,
+    screenReaderOptimized: false,
+    keyboardNavigation: false,
+    showControls: false,
+  },
+  preferences: {},
+  setPreference: () => {},
+});
+
+const PREFERENCE_LABELS: Record<AccessibilityPreferenceKey, string> = {
+  highContrast: 'High contrast',
+  reducedMotion: 'Reduce motion',
+};
+
+interface AccessibilityProviderProps {
+  accessibility: AccessibilityConfig;
+  children: React.ReactNode;
+}
+
+/**
+ * AccessibilityProvider component that tracks system settings and stores the visitor's choices
+ */
+export function AccessibilityProvider({ accessibility, children }: AccessibilityProviderProps) {
+  const [system, setSystem] = useState<Record<AccessibilityPreferenceKey, boolean>>({
+    highContrast: false,
+    reducedMotion: false,
+  });
+  const [preferences, setPreferences] = useState<AccessibilityPreferences>({});
+
+  // System settings and stored choices are read in the browser only, so pre-rendered markup
+  // follows the config alone
+  useEffect(() => {
+    setPreferences(loadAccessibilityPreferences());
+
+    if (typeof window.matchMedia !== 'function') {
+      return;
+    }
+
+    const update = () => setSystem(getSystemAccessibilityPreferences());
+    const mediaQueries = ACCESSIBILITY_PREFERENCE_KEYS.map(key => window.matchMedia(ACCESSIBILITY_MEDIA_QUERIES[key]));
+
+    update();
+    mediaQueries.forEach(mediaQuery => mediaQuery.addEventListener('change', update));
+    return () => mediaQueries.forEach(mediaQuery => mediaQuery.removeEventListener('change', update));
+  }, []);
+
+  // Skip to main content on Ctrl+/
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.key === '/') {
+        e.preventDefault();
+        document.getElementById('main-content')?.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Announce the loaded page to screen readers
+  useEffect(() => {
+    if (!accessibility.screenReaderOptimized) {
+      return;
+    }
+
+    const announcement = document.createElement('div');
+    announcement.setAttribute('aria-live', 'polite');
+    announcement.setAttribute('aria-atomic', 'true');
+    announcement.className = 'sr-only';
+    document.body.appendChild(announcement);
+
+    // Live regions only announce changes made after they are in the document
+    const announceTimer = setTimeout(() => {
+      announcement.textContent = 'Page content loaded';
+    }, 100);
+    const removeTimer = setTimeout(() => announcement.remove(), 1000);
+
+    return () => {
+      clearTimeout(announceTimer);
+      clearTimeout(removeTimer);
+      announcement.remove();
+    };
+  }, [accessibility.screenReaderOptimized]);
+
+  const setPreference = useCallback((key: AccessibilityPreferenceKey, value: boolean | undefined) => {
+    setPreferences(current => {
+      const next = { ...current };
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      saveAccessibilityPreferences(next);
+      return next;
+    });
+  }, []);
+
+  const contextValue = useMemo<AccessibilityContextValue>(() => ({
+    settings: resolveAccessibilitySettings(accessibility, system, preferences),
+    preferences,
+    setPreference,
+  }), [accessibility, system, preferences, setPreference]);
+
+  return (
+    <AccessibilityContext.Provider value={contextValue}>
+      {children}
+    </AccessibilityContext.Provider>
+  );
+}
+
+/**
+ * AccessibilityControls component: a button opening the visitor's accessibility panel
+ */
+export function AccessibilityControls() {
+  const { settings, preferences, setPreference } = useAccessibility();
+  const [open, setOpen] = useState(false);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const panelId = useId();
+
+  const close = () => {
+    setOpen(false);
+    toggleRef.current?.focus();
+  };
+
+  return (
+    <div className="no-print">
+      <button
+        ref={toggleRef}
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="accessibility-toggle"
+        aria-expanded={open}
+        aria-controls={panelId}
+        aria-label="Accessibility settings"
+        title="Accessibility settings"
+      >
+        <Accessibility className="w-5 h-5" aria-hidden="true" />
+      </button>
+
+      {open && (
+        <section
+          id={panelId}
+          aria-label="Accessibility settings"
+          className="accessibility-panel"
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.stopPropagation();
+              close();
+            }
+          }}
+        >
+          <h2 className="accessibility-panel-title">Accessibility</h2>
+          {ACCESSIBILITY_PREFERENCE_KEYS.map(key => (
+            <label key={key} className="accessibility-option">
+              <span>{PREFERENCE_LABELS[key]}</span>
+              <input
+                type="checkbox"
+                checked={settings[key]}
+                onChange={(e) => setPreference(key, e.target.checked)}
+              />
+            </label>
+          ))}
+          {Object.keys(preferences).length > 0 && (
+            <button
+              type="button"
+              className="accessibility-reset"
+              onClick={() => ACCESSIBILITY_PREFERENCE_KEYS.forEach(key => setPreference(key, undefined))}
+            >
+              Use system settings
+            </button>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Hook to read the effective accessibility settings and the visitor's choices
+ */
+export function useAccessibility(): AccessibilityContextValue {
+  return useContext(AccessibilityContext);
+}
+
+export default AccessibilityProvider;
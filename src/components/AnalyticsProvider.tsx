@@ -0,0 +1,85 @@
+/**
+ * AnalyticsProvider component for first-party click tracking
+ */
+
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { createAnalyticsTracker, type AnalyticsTracker } from '@/utils/analytics';
+import type { AnalyticsConfig, LinkClickEvent, SocialClickEvent } from '@/types/config';
+
+interface AnalyticsContextValue {
+  trackLinkClick: (event: LinkClickEvent) => void;
+  trackSocialClick: (event: SocialClickEvent) => void;
+}
+
+// Components rendered outside a provider simply don't track
+const AnalyticsContext = createContext<AnalyticsContextValue>({
+  trackLinkClick: () => {},
+  trackSocialClick: () => {},
+});
+
+interface AnalyticsProviderProps {
+  analytics: AnalyticsConfig;
+  children: React.ReactNode;
+}
+
+/**
+ * AnalyticsProvider component that owns the tracker for the current analytics configuration
+ */
+export function AnalyticsProvider({ analytics, children }: AnalyticsProviderProps) {
+  const [tracker, setTracker] = useState<AnalyticsTracker | null>(null);
+
+  // Create the tracker in the browser only, and flush it when the configuration changes
+  useEffect(() => {
+    const nextTracker = createAnalyticsTracker(analytics);
+    setTracker(nextTracker);
+
+    const detach = nextTracker?.attach();
+    return () => {
+      detach?.();
+    };
+  }, [
+    analytics.endpoint,
+    analytics.transport,
+    analytics.batchSize,
+    analytics.flushInterval,
+    analytics.trackClicks,
+    analytics.trackSocialClicks,
+  ]);
+
+  const contextValue = useMemo<AnalyticsContextValue>(() => ({
+    trackLinkClick: (event) => {
+      if (tracker && analytics.trackClicks) {
+        tracker.track('link_click', {
+          linkTitle: event.linkTitle,
+          linkUrl: event.linkUrl,
+          featured: event.featured,
+          path: window.location.pathname,
+        }, event.timestamp);
+      }
+    },
+    trackSocialClick: (event) => {
+      if (tracker && analytics.trackSocialClicks) {
+        tracker.track('social_click', {
+          platform: event.platform,
+          username: event.username,
+          path: window.location.pathname,
+        }, event.timestamp);
+      }
+    },
+  }), [tracker, analytics.trackClicks, analytics.trackSocialClicks]);
+
+  return (
+    <AnalyticsContext.Provider value={contextValue}>
+      {children}
+    </AnalyticsContext.Provider>
+  );
+}
+
+/**
+ * Hook to report clicks to the first-party analytics pipeline
+ */
+export function useAnalytics(): AnalyticsContextValue {
+  return useContext(AnalyticsContext);
+}
+
+export default AnalyticsProvider;
@@ -0,0 +1,688 @@
+/**
+ * ConfigEditor component for editing the configuration in the browser with a live preview
+ */
+
+import React from 'react';
+import { Copy, Download } from 'lucide-react';
+import { useTheme } from './ThemeProvider';
+import { LinkTreePage } from './LinkTreePage';
+import { LinksEditor } from './LinksEditor';
+import {
+  ColorField,
+  EditorIssuesProvider,
+  EditorSection,
+  ListField,
+  NumberField,
+  SelectField,
+  TextField,
+  ToggleField
+} from './EditorFields';
+import { validateConfig } from '@/utils/validation';
+import { getMissingIconWarnings } from '@/utils/icon-registry';
+import { downloadConfig, groupIssuesByField, serializeConfig } from '@/utils/config-editor';
+import { SOCIAL_PLATFORMS, SOCIAL_PLATFORM_IDS } from '@/utils/social-platforms';
+import { THEME_PRESETS, THEME_PRESET_NAMES, getThemePreset } from '@/utils/theme-presets';
+import { PWA_DISPLAY_MODES, PWA_ORIENTATIONS } from '@/utils/pwa';
+import { FONT_FALLBACKS, FONT_FAMILIES, FONT_FAMILY_NAMES } from '@/utils/fonts';
+import type {
+  Alignment,
+  AnalyticsTransportType,
+  BackgroundStyle,
+  ButtonAnimation,
+  ButtonStyle,
+  ColorScheme,
+  ContrastLevel,
+  CustomFontConfig,
+  DeepPartial,
+  FontFamily,
+  FontLoadStatus,
+  LinkTreeConfig,
+  MaxWidth,
+  PWAConfig,
+  ProfileContactConfig,
+  SocialMediaPosition,
+  Spacing,
+  ThemePresetName
+} from '@/types/config';
+
+const COLOR_SCHEMES: readonly ColorScheme[] = ['light', 'dark', 'auto'];
+const BACKGROUND_STYLES: readonly BackgroundStyle[] = ['solid', 'gradient', 'image'];
+const FONT_OPTIONS: readonly { value: FontFamily; label: string }[] = FONT_FAMILY_NAMES.map(name => ({
+  value: name,
+  label: FONT_FAMILIES[name].name,
+}));
+const FONT_LOAD_HINTS: Record<FontLoadStatus, string> = {
+  loading: 'Loading the font…',
+  loaded: 'Font loaded',
+  error: 'The font could not be loaded; the fallback font is shown',
+};
+const BUTTON_STYLES: readonly ButtonStyle[] = ['rounded', 'square', 'pill'];
+const BUTTON_ANIMATIONS: readonly ButtonAnimation[] = ['none', 'scale', 'glow', 'lift'];
+const CONTRAST_LEVELS: readonly ContrastLevel[] = ['AA', 'AAA'];
+const MAX_WIDTHS: readonly MaxWidth[] = ['sm', 'md', 'lg', 'xl', 'full'];
+const ALIGNMENTS: readonly Alignment[] = ['left', 'center', 'right'];
+const SPACINGS: readonly Spacing[] = ['compact', 'normal', 'relaxed'];
+const SOCIAL_POSITIONS: readonly SocialMediaPosition[] = ['top', 'bottom', 'both'];
+const PRESET_OPTIONS: readonly { value: ThemePresetName | ''; label: string }[] = [
+  { value: '', label: 'custom' },
+  ...THEME_PRESET_NAMES.map(name => ({ value: name, label: THEME_PRESETS[name].name })),
+];
+const PALETTE_FIELDS = [
+  { field: 'secondaryColor', label: 'Secondary color' },
+  { field: 'accentColor', label: 'Accent color' },
+  { field: 'textColor', label: 'Text color' },
+  { field: 'surfaceColor', label: 'Surface color' },
+] as const;
+const ACCESSIBILITY_FIELDS = [
+  { field: 'highContrast', label: 'High contrast', hint: 'Visitors can still turn it off' },
+  { field: 'reducedMotion', label: 'Reduce motion', hint: 'Visitors can still turn it off' },
+  { field: 'screenReaderOptimized', label: 'Screen reader announcements', hint: undefined },
+  { field: 'keyboardNavigation', label: 'Arrow-key navigation between links', hint: undefined },
+  { field: 'showControls', label: 'Accessibility settings button', hint: undefined },
+] as const;
+const TRANSPORT_OPTIONS: readonly { value: AnalyticsTransportType | ''; label: string }[] = [
+  { value: '', label: 'none' },
+  { value: 'beacon', label: 'beacon' },
+  { value: 'localStorage', label: 'localStorage' },
+  { value: 'console', label: 'console' },
+];
+
+/**
+ * ConfigEditor component. Every change goes through the theme context,
+ * so the preview next to the form updates as you type.
+ */
+export function ConfigEditor() {
+  const { config, updateConfig, fontLoading, profiles } = useTheme();
+  const [copyStatus, setCopyStatus] = React.useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const validation = React.useMemo(() => validateConfig(config), [config]);
+  // Lucide icons missing from the build are only known in the browser, so they join the warnings here
+  const iconWarnings = React.useMemo(() => getMissingIconWarnings(config.links), [config.links]);
+  const issues = React.useMemo(
+    () => groupIssuesByField(validation.errors, [...validation.warnings, ...iconWarnings]),
+    [validation, iconWarnings]
+  );
+
+  // Reset the copy button label after a moment
+  React.useEffect(() => {
+    if (copyStatus === 'idle') {
+      return;
+    }
+    const timer = setTimeout(() => setCopyStatus('idle'), 2000);
+    return () => clearTimeout(timer);
+  }, [copyStatus]);
+
+  const update = <K extends keyof LinkTreeConfig>(section: K, values: DeepPartial<LinkTreeConfig[K]>) => {
+    updateConfig({ [section]: values } as DeepPartial<LinkTreeConfig>);
+  };
+
+  // customFont, pwa and contact are optional, so updates carry the whole object
+  const updateCustomFont = (values: Partial<CustomFontConfig>) => {
+    const { customFont } = config.theme;
+    update('theme', { customFont: { name: '', url: '', ...customFont, ...values } });
+  };
+
+  const updatePWA = (values: PWAConfig) => {
+    update('advanced', { pwa: { ...config.advanced.pwa, ...values } });
+  };
+
+  const updateContact = (values: ProfileContactConfig) => {
+    update('profile', { contact: { ...config.profile.contact, ...values } });
+  };
+
+  const copyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeConfig(config, profiles));
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+  };
+
+  const { profile, theme, layout, seo, analytics, accessibility, advanced } = config;
+  const profileCount = Object.keys(profiles).length;
+  const customFontStatus = theme.customFont?.name && theme.customFont.url
+    ? fontLoading[theme.customFont.name]
+    : undefined;
+
+  return (
+    <div className="editor">
+      <aside className="editor-panel" aria-label="Configuration editor">
+        <header className="editor-header">
+          <h1 className="editor-title">Edit your page</h1>
+          <p className="editor-status" role="status">
+            {formatValidationSummary(validation.errors.length, validation.warnings.length + iconWarnings.length)}
+          </p>
+          <div className="editor-actions">
+            <button
+              type="button"
+              className="editor-button editor-button-primary"
+              onClick={() => downloadConfig(config, profiles)}
+            >
+              <Download className="w-4 h-4" aria-hidden="true" />
+              Download config.json
+            </button>
+            <button type="button" className="editor-button" onClick={copyJson}>
+              <Copy className="w-4 h-4" aria-hidden="true" />
+              {copyStatus === 'copied' ? 'Copied' : copyStatus === 'failed' ? 'Copy failed' : 'Copy JSON'}
+            </button>
+          </div>
+          {profileCount > 0 && (
+            <p className="editor-hint">
+              {profileCount === 1 ? '1 profile is' : `${profileCount} profiles are`} not edited here and
+              {' '}{profileCount === 1 ? 'is' : 'are'} exported unchanged.
+            </p>
+          )}
+        </header>
+
+        <EditorIssuesProvider value={issues}>
+          <form className="editor-form" onSubmit={(e) => e.preventDefault()}>
+            <EditorSection title="Profile" defaultOpen>
+              <TextField
+                label="Name"
+                field="profile.name"
+                value={profile.name}
+                onChange={(name) => update('profile', { name })}
+              />
+              <TextField
+                label="Bio"
+                field="profile.bio"
+                multiline
+                value={profile.bio}
+                hint="Supports **bold**, *italic*, [links](https://…), line breaks and @mentions"
+                onChange={(bio) => update('profile', { bio })}
+              />
+              <TextField
+                label="Avatar URL"
+                field="profile.avatar"
+                type="url"
+                value={profile.avatar}
+                onChange={(avatar) => update('profile', { avatar })}
+              />
+              <TextField
+                label="Location"
+                field="profile.location"
+                value={profile.location}
+                onChange={(location) => update('profile', { location })}
+              />
+              <ListField
+                label="Contact emails"
+                field="profile.contact.emails"
+                value={profile.contact?.emails}
+                placeholder="hello@example.com"
+                hint="One per line. Contact details are only used in the Save contact card."
+                onChange={(emails) => updateContact({ emails })}
+              />
+              <ListField
+                label="Contact phone numbers"
+                field="profile.contact.phones"
+                value={profile.contact?.phones}
+                placeholder="+1 555 010 0199"
+                hint="One per line, preferably with the country code"
+                onChange={(phones) => updateContact({ phones })}
+              />
+              <TextField
+                label="Organization"
+                field="profile.contact.organization"
+                value={profile.contact?.organization}
+                onChange={(organization) => updateContact({ organization })}
+              />
+              <TextField
+                label="Job title"
+                field="profile.contact.title"
+                value={profile.contact?.title}
+                onChange={(title) => updateContact({ title })}
+              />
+              <TextField
+                label="Website"
+                field="profile.contact.website"
+                type="url"
+                value={profile.contact?.website}
+                onChange={(website) => updateContact({ website })}
+              />
+            </EditorSection>
+
+            <EditorSection title="Links" defaultOpen>
+              <LinksEditor links={config.links} onChange={(links) => updateConfig({ links })} />
+            </EditorSection>
+
+            <EditorSection title="Social media">
+              {SOCIAL_PLATFORM_IDS.map(platform => (
+                <TextField
+                  key={platform}
+                  label={SOCIAL_PLATFORMS[platform].name}
+                  field={`socialMedia.${platform}`}
+                  value={config.socialMedia[platform]}
+                  placeholder={SOCIAL_PLATFORMS[platform].example}
+                  onChange={(username) => update('socialMedia', { [platform]: username })}
+                />
+              ))}
+            </EditorSection>
+
+            <EditorSection title="Theme">
+              <SelectField
+                label="Preset"
+                field="theme.preset"
+                value={theme.preset ?? ''}
+                options={PRESET_OPTIONS}
+                hint={getThemePreset(theme.preset)?.description}
+                // Choosing a preset resets the theme to its values; the fields below still override it
+                onChange={(preset) => update('theme', {
+                  ...getThemePreset(preset)?.config,
+                  preset: preset as ThemePresetName
+                })}
+              />
+              <SelectField
+                label="Color scheme"
+                field="theme.colorScheme"
+                value={theme.colorScheme}
+                options={COLOR_SCHEMES}
+                onChange={(colorScheme) => update('theme', { colorScheme })}
+              />
+              <ColorField
+                label="Primary color"
+                field="theme.primaryColor"
+                value={theme.primaryColor}
+                onChange={(primaryColor) => update('theme', { primaryColor })}
+              />
+              {PALETTE_FIELDS.map(({ field, label }) => (
+                <ColorField
+                  key={field}
+                  label={label}
+                  field={`theme.${field}`}
+                  value={theme[field] ?? ''}
+                  hint="Optional; hex, rgb() or hsl()"
+                  onChange={(color) => update('theme', { [field]: color })}
+                />
+              ))}
+              <SelectField
+                label="Background"
+                field="theme.backgroundStyle"
+                value={theme.backgroundStyle}
+                options={BACKGROUND_STYLES}
+                onChange={(backgroundStyle) => update('theme', { backgroundStyle })}
+              />
+              {theme.backgroundStyle === 'gradient' && (
+                <>
+                  <TextField
+                    label="Gradient colors"
+                    field="theme.gradient.stops"
+                    value={theme.gradient?.stops.join(', ')}
+                    placeholder="#6366f1, #ec4899"
+                    hint="Two or more colors, separated by commas; leave empty for the default gradient"
+                    // An empty list switches back to the built-in gradient
+                    onChange={(stops) => update('theme', { gradient: { stops: splitColorList(stops) } })}
+                  />
+                  {!!theme.gradient?.stops.length && (
+                    <NumberField
+                      label="Gradient angle"
+                      field="theme.gradient.angle"
+                      value={theme.gradient.angle}
+                      fallback={135}
+                      min={0}
+                      max={360}
+                      onChange={(angle) => update('theme', { gradient: { stops: theme.gradient?.stops ?? [], angle } })}
+                    />
+                  )}
+                </>
+              )}
+              {theme.backgroundStyle === 'image' && (
+                <TextField
+                  label="Background image URL"
+                  field="theme.backgroundImage"
+                  type="url"
+                  value={theme.backgroundImage}
+                  onChange={(backgroundImage) => update('theme', { backgroundImage })}
+                />
+              )}
+              <SelectField
+                label="Font"
+                field="theme.fontFamily"
+                value={theme.fontFamily}
+                options={FONT_OPTIONS}
+                onChange={(fontFamily) => update('theme', { fontFamily })}
+              />
+              <TextField
+                label="Custom font name"
+                field="theme.customFont.name"
+                value={theme.customFont?.name}
+                placeholder="Brand Sans"
+                hint="Optional; replaces the font above"
+                onChange={(name) => updateCustomFont({ name })}
+              />
+              <TextField
+                label="Custom font URL"
+                field="theme.customFont.url"
+                type="url"
+                value={theme.customFont?.url}
+                placeholder="/fonts/brand-sans.woff2"
+                hint={customFontStatus ? FONT_LOAD_HINTS[customFontStatus] : 'woff2, woff, ttf or otf file'}
+                onChange={(url) => updateCustomFont({ url })}
+              />
+              {(theme.customFont?.name || theme.customFont?.url) && (
+                <SelectField
+                  label="Custom font fallback"
+                  field="theme.customFont.fallback"
+                  value={theme.customFont.fallback ?? 'sans-serif'}
+                  options={FONT_FALLBACKS}
+                  onChange={(fallback) => updateCustomFont({ fallback })}
+                />
+              )}
+              <SelectField
+                label="Button style"
+                field="theme.buttonStyle"
+                value={theme.buttonStyle}
+                options={BUTTON_STYLES}
+                onChange={(buttonStyle) => update('theme', { buttonStyle })}
+              />
+              <SelectField
+                label="Button animation"
+                field="theme.buttonAnimation"
+                value={theme.buttonAnimation}
+                options={BUTTON_ANIMATIONS}
+                onChange={(buttonAnimation) => update('theme', { buttonAnimation })}
+              />
+              <ToggleField
+                label="Button borders"
+                field="theme.showBorder"
+                checked={theme.showBorder}
+                onChange={(showBorder) => update('theme', { showBorder })}
+              />
+              <SelectField
+                label="Contrast level"
+                field="theme.contrastLevel"
+                value={theme.contrastLevel ?? 'AA'}
+                options={CONTRAST_LEVELS}
+                hint="WCAG level the colors are checked against"
+                onChange={(contrastLevel) => update('theme', { contrastLevel })}
+              />
+              <ToggleField
+                label="Adjust text colors for contrast"
+                field="theme.autoContrast"
+                checked={theme.autoContrast ?? false}
+                onChange={(autoContrast) => update('theme', { autoContrast })}
+              />
+            </EditorSection>
+
+            <EditorSection title="Layout">
+              <SelectField
+                label="Maximum width"
+                field="layout.maxWidth"
+                value={layout.maxWidth}
+                options={MAX_WIDTHS}
+                onChange={(maxWidth) => update('layout', { maxWidth })}
+              />
+              <SelectField
+                label="Alignment"
+                field="layout.alignment"
+                value={layout.alignment}
+                options={ALIGNMENTS}
+                onChange={(alignment) => update('layout', { alignment })}
+              />
+              <SelectField
+                label="Spacing"
+                field="layout.spacing"
+                value={layout.spacing}
+                options={SPACINGS}
+                onChange={(spacing) => update('layout', { spacing })}
+              />
+              <ToggleField
+                label="Profile before links"
+                field="layout.showProfileFirst"
+                checked={layout.showProfileFirst}
+                onChange={(showProfileFirst) => update('layout', { showProfileFirst })}
+              />
+              <ToggleField
+                label="Show social media"
+                field="layout.showSocialMedia"
+                checked={layout.showSocialMedia}
+                onChange={(showSocialMedia) => update('layout', { showSocialMedia })}
+              />
+              <SelectField
+                label="Social media position"
+                field="layout.socialMediaPosition"
+                value={layout.socialMediaPosition}
+                options={SOCIAL_POSITIONS}
+                onChange={(socialMediaPosition) => update('layout', { socialMediaPosition })}
+              />
+            </EditorSection>
+
+            <EditorSection title="SEO">
+              <TextField
+                label="Page title"
+                field="seo.title"
+                value={seo.title}
+                onChange={(title) => update('seo', { title })}
+              />
+              <TextField
+                label="Description"
+                field="seo.description"
+                multiline
+                value={seo.description}
+                onChange={(description) => update('seo', { description })}
+              />
+              <TextField
+                label="Keywords"
+                field="seo.keywords"
+                value={seo.keywords}
+                hint="Comma-separated"
+                onChange={(keywords) => update('seo', { keywords })}
+              />
+              <TextField
+                label="Favicon URL"
+                field="seo.favicon"
+                type="url"
+                value={seo.favicon}
+                onChange={(favicon) => update('seo', { favicon })}
+              />
+              <TextField
+                label="Site URL"
+                field="seo.siteUrl"
+                type="url"
+                value={seo.siteUrl}
+                placeholder="https://links.example.com"
+                hint="Used for the page URL in link previews"
+                onChange={(siteUrl) => update('seo', { siteUrl })}
+              />
+            </EditorSection>
+
+            <EditorSection title="Analytics">
+              <TextField
+                label="Google Analytics ID"
+                field="analytics.googleAnalyticsId"
+                value={analytics.googleAnalyticsId}
+                placeholder="G-XXXXXXXXXX"
+                onChange={(googleAnalyticsId) => update('analytics', { googleAnalyticsId })}
+              />
+              <TextField
+                label="Facebook Pixel ID"
+                field="analytics.facebookPixelId"
+                value={analytics.facebookPixelId}
+                onChange={(facebookPixelId) => update('analytics', { facebookPixelId })}
+              />
+              <ToggleField
+                label="Ask for consent"
+                field="analytics.requireConsent"
+                checked={analytics.requireConsent !== false}
+                onChange={(requireConsent) => update('analytics', { requireConsent })}
+              />
+              <TextField
+                label="Privacy policy URL"
+                field="analytics.privacyPolicyUrl"
+                type="url"
+                value={analytics.privacyPolicyUrl}
+                onChange={(privacyPolicyUrl) => update('analytics', { privacyPolicyUrl })}
+              />
+              <ToggleField
+                label="Track link clicks"
+                field="analytics.trackClicks"
+                checked={analytics.trackClicks}
+                onChange={(trackClicks) => update('analytics', { trackClicks })}
+              />
+              <ToggleField
+                label="Track social clicks"
+                field="analytics.trackSocialClicks"
+                checked={analytics.trackSocialClicks}
+                onChange={(trackSocialClicks) => update('analytics', { trackSocialClicks })}
+              />
+              <TextField
+                label="Click analytics endpoint"
+                field="analytics.endpoint"
+                value={analytics.endpoint}
+                placeholder="/api/collect"
+                onChange={(endpoint) => update('analytics', { endpoint })}
+              />
+              <SelectField
+                label="Transport"
+                field="analytics.transport"
+                value={analytics.transport ?? ''}
+                options={TRANSPORT_OPTIONS}
+                // Cleared fields are kept as empty strings and left out of the export
+                onChange={(transport) => update('analytics', { transport: transport as AnalyticsTransportType })}
+              />
+              <NumberField
+                label="Batch size"
+                field="analytics.batchSize"
+                value={analytics.batchSize}
+                fallback={10}
+                min={1}
+                max={100}
+                onChange={(batchSize) => update('analytics', { batchSize })}
+              />
+              <NumberField
+                label="Flush interval (ms)"
+                field="analytics.flushInterval"
+                value={analytics.flushInterval}
+                fallback={5000}
+                min={1000}
+                step={1000}
+                onChange={(flushInterval) => update('analytics', { flushInterval })}
+              />
+            </EditorSection>
+
+            <EditorSection title="Accessibility">
+              {ACCESSIBILITY_FIELDS.map(({ field, label, hint }) => (
+                <ToggleField
+                  key={field}
+                  label={label}
+                  field={`accessibility.${field}`}
+                  hint={hint}
+                  checked={accessibility[field]}
+                  onChange={(checked) => update('accessibility', { [field]: checked })}
+                />
+              ))}
+            </EditorSection>
+
+            <EditorSection title="Advanced">
+              <ToggleField
+                label="Installable app (PWA)"
+                field="advanced.enablePWA"
+                checked={advanced.enablePWA}
+                onChange={(enablePWA) => update('advanced', { enablePWA })}
+              />
+              {advanced.enablePWA && (
+                <>
+                  <TextField
+                    label="App name"
+                    field="advanced.pwa.name"
+                    value={advanced.pwa?.name}
+                    placeholder={seo.title}
+                    onChange={(name) => updatePWA({ name })}
+                  />
+                  <TextField
+                    label="Short name"
+                    field="advanced.pwa.shortName"
+                    value={advanced.pwa?.shortName}
+                    placeholder={profile.name}
+                    hint="Shown under the home screen icon"
+                    onChange={(shortName) => updatePWA({ shortName })}
+                  />
+                  <ColorField
+                    label="App theme color"
+                    field="advanced.pwa.themeColor"
+                    value={advanced.pwa?.themeColor ?? ''}
+                    hint="Optional; defaults to the primary color"
+                    onChange={(themeColor) => updatePWA({ themeColor })}
+                  />
+                  <ColorField
+                    label="Splash screen color"
+                    field="advanced.pwa.backgroundColor"
+                    value={advanced.pwa?.backgroundColor ?? ''}
+                    hint="Optional; defaults to the page background"
+                    onChange={(backgroundColor) => updatePWA({ backgroundColor })}
+                  />
+                  <SelectField
+                    label="Display"
+                    field="advanced.pwa.display"
+                    value={advanced.pwa?.display ?? 'standalone'}
+                    options={PWA_DISPLAY_MODES}
+                    onChange={(display) => updatePWA({ display })}
+                  />
+                  <SelectField
+                    label="Orientation"
+                    field="advanced.pwa.orientation"
+                    value={advanced.pwa?.orientation ?? 'any'}
+                    options={PWA_ORIENTATIONS}
+                    onChange={(orientation) => updatePWA({ orientation })}
+                  />
+                </>
+              )}
+              <ToggleField
+                label="Dark mode toggle"
+                field="advanced.enableDarkMode"
+                checked={advanced.enableDarkMode}
+                onChange={(enableDarkMode) => update('advanced', { enableDarkMode })}
+              />
+              <ToggleField
+                label="Animations"
+                field="advanced.enableAnimations"
+                checked={advanced.enableAnimations}
+                onChange={(enableAnimations) => update('advanced', { enableAnimations })}
+              />
+              <ToggleField
+                label="Preload images"
+                field="advanced.preloadImages"
+                checked={advanced.preloadImages}
+                onChange={(preloadImages) => update('advanced', { preloadImages })}
+              />
+              <ToggleField
+                label="Share buttons"
+                field="advanced.enableSharing"
+                checked={advanced.enableSharing}
+                onChange={(enableSharing) => update('advanced', { enableSharing })}
+              />
+            </EditorSection>
+          </form>
+        </EditorIssuesProvider>
+      </aside>
+
+      <section className="editor-preview" aria-label="Live preview">
+        <LinkTreePage preview />
+      </section>
+    </div>
+  );
+}
+
+/**
+ * Splits a comma-separated color list, keeping commas inside rgb() and hsl() together
+ */
+function splitColorList(value: string): string[] {
+  return value.trim() ? value.split(/,(?![^(]*\))/).map(color => color.trim()) : [];
+}
+
+function formatValidationSummary(errors: number, warnings: number): string {
+  if (errors === 0 && warnings === 0) {
+    return 'No problems found';
+  }
+
+  const parts = [];
+  if (errors > 0) {
+    parts.push(`${errors} ${errors === 1 ? 'error' : 'errors'}`);
+  }
+  if (warnings > 0) {
+    parts.push(`${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`);
+  }
+  return parts.join(', ');
+}
+
+export default ConfigEditor;
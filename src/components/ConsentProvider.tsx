@@ -0,0 +1,212 @@
+/**
+ * ConsentProvider component for third-party analytics consent
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  clearTrackingCookies,
+  createConsentPreferences,
+  getRequiredConsentCategories,
+  loadConsentPreferences,
+  saveConsentPreferences
+} from '@/utils/consent';
+import { toSafeHref } from '@/utils/encoding';
+import type { AnalyticsConfig, ConsentCategory, ConsentPreferences } from '@/types/config';
+
+type ConsentChoices = Record<ConsentCategory, boolean>;
+
+interface ConsentContextValue {
+  /** Current choices, or null while the visitor has not decided */
+  preferences: ConsentPreferences | null;
+  updateConsent: (choices: ConsentChoices) => void;
+  openPreferences: () => void;
+}
+
+// Without a provider nothing is consented to, so no third-party script loads
+const ConsentContext = createContext<ConsentContextValue>({
+  preferences: null,
+  updateConsent: () => {},
+  openPreferences: () => {},
+});
+
+const CATEGORY_DESCRIPTIONS: Record<ConsentCategory, { title: string; description: string }> = {
+  analytics: {
+    title: 'Analytics',
+    description: 'Google Analytics measures visits to this page.',
+  },
+  marketing: {
+    title: 'Marketing',
+    description: 'The Facebook Pixel measures the performance of ads.',
+  },
+};
+
+interface ConsentProviderProps {
+  analytics: AnalyticsConfig;
+  children: React.ReactNode;
+}
+
+/**
+ * ConsentProvider component that stores the visitor's choices and shows the consent banner
+ */
+export function ConsentProvider({ analytics, children }: ConsentProviderProps) {
+  const [preferences, setPreferences] = useState<ConsentPreferences | null>(null);
+  const [ready, setReady] = useState(false);
+  const [bannerOpen, setBannerOpen] = useState(false);
+
+  const categories = useMemo(
+    () => getRequiredConsentCategories(analytics),
+    [analytics.googleAnalyticsId, analytics.facebookPixelId]
+  );
+  const consentRequired = analytics.requireConsent !== false && categories.length > 0;
+
+  // Stored choices are read in the browser only, so pre-rendered markup never contains the banner
+  useEffect(() => {
+    const stored = loadConsentPreferences();
+    setPreferences(stored);
+    setBannerOpen(stored === null);
+    setReady(true);
+  }, []);
+
+  const updateConsent = useCallback((choices: ConsentChoices) => {
+    const next = createConsentPreferences(choices);
+
+    if ((preferences?.analytics && !next.analytics) || (preferences?.marketing && !next.marketing)) {
+      clearTrackingCookies();
+    }
+
+    saveConsentPreferences(next);
+    setPreferences(next);
+    setBannerOpen(false);
+  }, [preferences]);
+
+  const openPreferences = useCallback(() => setBannerOpen(true), []);
+
+  const contextValue = useMemo<ConsentContextValue>(() => ({
+    preferences: consentRequired
+      ? preferences
+      : createConsentPreferences({ analytics: true, marketing: true }),
+    updateConsent,
+    openPreferences,
+  }), [consentRequired, preferences, updateConsent, openPreferences]);
+
+  return (
+    <ConsentContext.Provider value={contextValue}>
+      {children}
+
+      {ready && consentRequired && (bannerOpen ? (
+        <ConsentBanner
+          categories={categories}
+          preferences={preferences}
+          privacyPolicyUrl={analytics.privacyPolicyUrl}
+          onSave={updateConsent}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={openPreferences}
+          className="consent-settings-toggle no-print"
+        >
+          Privacy settings
+        </button>
+      ))}
+    </ConsentContext.Provider>
+  );
+}
+
+interface ConsentBannerProps {
+  categories: ConsentCategory[];
+  preferences: ConsentPreferences | null;
+  privacyPolicyUrl?: string;
+  onSave: (choices: ConsentChoices) => void;
+}
+
+/**
+ * ConsentBanner component with accept, reject and per-category choices
+ */
+export function ConsentBanner({ categories, preferences, privacyPolicyUrl, onSave }: ConsentBannerProps) {
+  const [customizing, setCustomizing] = useState(preferences !== null);
+  const [choices, setChoices] = useState<ConsentChoices>({
+    analytics: preferences?.analytics ?? false,
+    marketing: preferences?.marketing ?? false,
+  });
+
+  // Only categories that were presented to the visitor can be granted
+  const saveAll = (granted: boolean) => {
+    onSave({
+      analytics: granted && categories.includes('analytics'),
+      marketing: granted && categories.includes('marketing'),
+    });
+  };
+
+  return (
+    <section
+      role="dialog"
+      aria-labelledby="consent-banner-title"
+      aria-describedby="consent-banner-description"
+      className="consent-banner no-print"
+    >
+      <h2 id="consent-banner-title" className="consent-title">
+        Your privacy choices
+      </h2>
+      <p id="consent-banner-description" className="consent-description">
+        This page can use cookies from third-party services. They are only loaded if you allow them,
+        and you can change your choice at any time.
+        {privacyPolicyUrl && (
+          <>
+            {' '}
+            <a href={toSafeHref(privacyPolicyUrl)} target="_blank" rel="noopener noreferrer">
+              Privacy policy
+            </a>
+          </>
+        )}
+      </p>
+
+      {customizing && (
+        <fieldset className="consent-categories">
+          <legend className="sr-only">Cookie categories</legend>
+          {categories.map(category => (
+            <label key={category} className="consent-category">
+              <input
+                type="checkbox"
+                checked={choices[category]}
+                onChange={(e) => setChoices({ ...choices, [category]: e.target.checked })}
+              />
+              <span>
+                <strong>{CATEGORY_DESCRIPTIONS[category].title}</strong>
+                {' '}
+                {CATEGORY_DESCRIPTIONS[category].description}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <div className="consent-actions">
+        <button type="button" className="consent-button" onClick={() => saveAll(false)}>
+          Reject all
+        </button>
+        {customizing ? (
+          <button type="button" className="consent-button" onClick={() => onSave(choices)}>
+            Save choices
+          </button>
+        ) : (
+          <button type="button" className="consent-button" onClick={() => setCustomizing(true)}>
+            Customize
+          </button>
+        )}
+        <button type="button" className="consent-button" onClick={() => saveAll(true)}>
+          Accept all
+        </button>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Hook to read and change the visitor's consent choices
+ */
+export function useConsent(): ConsentContextValue {
+  return useContext(ConsentContext);
+}
+
+export default ConsentProvider;
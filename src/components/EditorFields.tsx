@@ -0,0 +1,324 @@
+/**
+ * Form controls for the configuration editor
+ */
+
+import React, { createContext, useContext } from 'react';
+import { clsx } from 'clsx';
+import type { FieldIssues } from '@/utils/config-editor';
+
+// Validation results keyed by field path, provided by the editor
+const EditorIssuesContext = createContext<Record<string, FieldIssues>>({});
+
+export const EditorIssuesProvider = EditorIssuesContext.Provider;
+
+interface FieldProps {
+  label: string;
+  /** Config path of the field, e.g. `profile.name`; used for ids and validation messages */
+  field: string;
+  hint?: string;
+}
+
+/**
+ * Hook returning the validation errors and warnings for a field path
+ */
+export function useFieldIssues(field: string): FieldIssues {
+  const issues = useContext(EditorIssuesContext);
+  return issues[field] ?? { errors: [], warnings: [] };
+}
+
+function fieldId(field: string): string {
+  return `editor-${field.replace(/[^A-Za-z0-9]+/g, '-')}`;
+}
+
+/**
+ * FieldWrapper component rendering the label, hint and inline validation messages
+ */
+function FieldWrapper({
+  label,
+  field,
+  hint,
+  inline = false,
+  children
+}: FieldProps & {
+  inline?: boolean;
+  children: (props: { id: string; invalid: boolean; describedBy?: string }) => React.ReactNode;
+}) {
+  const { errors, warnings } = useFieldIssues(field);
+  const id = fieldId(field);
+  const messagesId = `${id}-messages`;
+  const hasMessages = errors.length > 0 || warnings.length > 0 || !!hint;
+
+  return (
+    <div className={clsx('editor-field', inline && 'editor-field-inline')}>
+      <label htmlFor={id} className="editor-label">{label}</label>
+      {children({ id, invalid: errors.length > 0, describedBy: hasMessages ? messagesId : undefined })}
+      {hasMessages && (
+        <div id={messagesId} className="editor-messages">
+          {errors.map(message => (
+            <p key={message} className="editor-error">{message}</p>
+          ))}
+          {warnings.map(message => (
+            <p key={message} className="editor-warning">{message}</p>
+          ))}
+          {hint && errors.length === 0 && <p className="editor-hint">{hint}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * TextField component for single-line and multi-line text
+ */
+export function TextField({
+  value,
+  onChange,
+  type = 'text',
+  multiline = false,
+  placeholder,
+  ...props
+}: FieldProps & {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  type?: 'text' | 'url' | 'email';
+  multiline?: boolean;
+  placeholder?: string;
+}) {
+  return (
+    <FieldWrapper {...props}>
+      {({ id, invalid, describedBy }) => multiline ? (
+        <textarea
+          id={id}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={3}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-input"
+        />
+      ) : (
+        <input
+          id={id}
+          type={type}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-input"
+        />
+      )}
+    </FieldWrapper>
+  );
+}
+
+/**
+ * ListField component for a list of strings, one per line; blank lines are dropped
+ */
+export function ListField({
+  value,
+  onChange,
+  placeholder,
+  ...props
+}: FieldProps & {
+  value: string[] | undefined;
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}) {
+  const items = value ?? [];
+  const [draft, setDraft] = React.useState(items.join('\n'));
+
+  // The draft keeps blank lines while typing; it is replaced when the list changes elsewhere
+  const parsed = parseListField(draft);
+  const text = parsed.length === items.length && parsed.every((item, index) => item === items[index])
+    ? draft
+    : items.join('\n');
+
+  return (
+    <FieldWrapper {...props}>
+      {({ id, invalid, describedBy }) => (
+        <textarea
+          id={id}
+          value={text}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            onChange(parseListField(e.target.value));
+          }}
+          placeholder={placeholder}
+          rows={2}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-input"
+        />
+      )}
+    </FieldWrapper>
+  );
+}
+
+function parseListField(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * NumberField component; an empty input falls back to the given default
+ */
+export function NumberField({
+  value,
+  onChange,
+  fallback,
+  min,
+  max,
+  step,
+  ...props
+}: FieldProps & {
+  value: number | undefined;
+  onChange: (value: number) => void;
+  fallback: number;
+  min?: number;
+  max?: number;
+  step?: number;
+}) {
+  return (
+    <FieldWrapper {...props}>
+      {({ id, invalid, describedBy }) => (
+        <input
+          id={id}
+          type="number"
+          value={value ?? fallback}
+          min={min}
+          max={max}
+          step={step}
+          onChange={(e) => onChange(e.target.value === '' ? fallback : Number(e.target.value))}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-input"
+        />
+      )}
+    </FieldWrapper>
+  );
+}
+
+/**
+ * SelectField component for enumerated options
+ */
+export function SelectField<T extends string>({
+  value,
+  options,
+  onChange,
+  ...props
+}: FieldProps & {
+  value: T | undefined;
+  options: readonly T[] | readonly { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  const normalizedOptions = options.map(option =>
+    typeof option === 'string' ? { value: option, label: option } : option
+  );
+
+  return (
+    <FieldWrapper {...props}>
+      {({ id, invalid, describedBy }) => (
+        <select
+          id={id}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value as T)}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-input"
+        >
+          {normalizedOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+    </FieldWrapper>
+  );
+}
+
+/**
+ * ToggleField component for boolean settings
+ */
+export function ToggleField({
+  checked,
+  onChange,
+  ...props
+}: FieldProps & {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <FieldWrapper {...props} inline>
+      {({ id, invalid, describedBy }) => (
+        <input
+          id={id}
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => onChange(e.target.checked)}
+          aria-invalid={invalid}
+          aria-describedby={describedBy}
+          className="editor-checkbox"
+        />
+      )}
+    </FieldWrapper>
+  );
+}
+
+/**
+ * ColorField component pairing a color picker with a hex text input
+ */
+export function ColorField({
+  value,
+  onChange,
+  ...props
+}: FieldProps & {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <FieldWrapper {...props}>
+      {({ id, invalid, describedBy }) => (
+        <div className="editor-color">
+          <input
+            type="color"
+            value={/^#[0-9A-Fa-f]{6}$/.test(value) ? value : '#000000'}
+            onChange={(e) => onChange(e.target.value)}
+            aria-label={`${props.label} picker`}
+            className="editor-color-swatch"
+          />
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            aria-invalid={invalid}
+            aria-describedby={describedBy}
+            className="editor-input"
+          />
+        </div>
+      )}
+    </FieldWrapper>
+  );
+}
+
+/**
+ * EditorSection component grouping the fields of one configuration section
+ */
+export function EditorSection({
+  title,
+  defaultOpen = false,
+  children
+}: {
+  title: string;
+  defaultOpen?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <details className="editor-section" open={defaultOpen}>
+      <summary className="editor-section-title">{title}</summary>
+      <div className="editor-section-body">{children}</div>
+    </details>
+  );
+}
+
+export default EditorSection;
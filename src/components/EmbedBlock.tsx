@@ -0,0 +1,115 @@
+/**
+ * EmbedBlock component for video, music and map blocks
+ */
+
+import React from 'react';
+import { ChevronDown, ExternalLink, MapPin, Music, Play } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useAnalytics } from './AnalyticsProvider';
+import { RichText } from './RichText';
+import { getEmbedFrame, getEmbedLinkUrl } from '@/utils/embeds';
+import type { EmbedBlockConfig, EmbedKind, LinkClickEvent } from '@/types/config';
+
+const EMBED_ICONS: Record<EmbedKind, React.ComponentType<{ className?: string }>> = {
+  video: Play,
+  music: Music,
+  map: MapPin,
+};
+
+/**
+ * EmbedBlock component. The block renders as a button; the provider's player or map is only
+ * added to the page once the visitor opens it, so no third-party request happens before then.
+ */
+export function EmbedBlock({
+  block,
+  buttonClassName,
+  onLinkClick,
+  className,
+  tabIndex
+}: {
+  block: EmbedBlockConfig;
+  /** Button style classes shared with the link buttons */
+  buttonClassName?: string;
+  onLinkClick?: (event: LinkClickEvent) => void;
+  className?: string;
+  tabIndex?: number;
+}) {
+  const [expanded, setExpanded] = React.useState(false);
+  const { trackLinkClick } = useAnalytics();
+  const panelId = React.useId();
+
+  const frame = getEmbedFrame(block);
+  if (!frame) {
+    return null;
+  }
+
+  const linkUrl = getEmbedLinkUrl(block);
+  const Icon = EMBED_ICONS[block.type];
+
+  const handleToggle = () => {
+    if (!expanded) {
+      const clickEvent: LinkClickEvent = {
+        linkTitle: block.title,
+        linkUrl,
+        timestamp: Date.now(),
+        featured: false
+      };
+      trackLinkClick(clickEvent);
+      onLinkClick?.(clickEvent);
+    }
+    setExpanded(!expanded);
+  };
+
+  return (
+    <div className={clsx('embed-block', className)}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={clsx('btn-link link-enter', buttonClassName)}
+        aria-expanded={expanded}
+        aria-controls={panelId}
+        tabIndex={tabIndex}
+      >
+        <div className="link-content">
+          <div className="link-icon" aria-hidden="true">
+            <Icon className="w-5 h-5" />
+          </div>
+
+          <div className="link-text">
+            <div className="link-title">{block.title}</div>
+            {block.description && (
+              <div className="link-description">
+                <RichText text={block.description} interactive={false} />
+              </div>
+            )}
+          </div>
+
+          <span className="embed-provider">{frame.provider}</span>
+          <ChevronDown className={clsx('embed-chevron', expanded && 'rotate-180')} aria-hidden="true" />
+        </div>
+      </button>
+
+      <div id={panelId} className="embed-panel" hidden={!expanded}>
+        {expanded && (
+          <>
+            <iframe
+              src={frame.src}
+              title={`${block.title} (${frame.provider})`}
+              className="embed-frame"
+              style={frame.height ? { height: frame.height } : { aspectRatio: '16 / 9' }}
+              allow="autoplay; encrypted-media; fullscreen; picture-in-picture; clipboard-write"
+              allowFullScreen
+              referrerPolicy="strict-origin-when-cross-origin"
+            />
+            <a href={linkUrl} target="_blank" rel="noopener noreferrer" className="embed-link">
+              Open in {frame.provider}
+              <ExternalLink className="w-3 h-3" aria-hidden="true" />
+            </a>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EmbedBlock;
@@ -6,21 +6,37 @@ import React from 'react';
 import { clsx } from 'clsx';
 import { Moon, Sun } from 'lucide-react';
 import { useTheme } from './ThemeProvider';
-import type { LayoutProps } from '@/types/config';
+import { useConsent } from './ConsentProvider';
+import { AccessibilityControls, useAccessibility } from './AccessibilityProvider';
+import { getConsentModeState } from '@/utils/consent';
+import { getBackgroundGradient } from '@/utils/palette';
+import { validateColor, validateFacebookPixelId, validateGoogleAnalyticsId } from '@/utils/validation';
+import type { ConsentModeState, LayoutProps } from '@/types/config';
 
 /**
  * Main layout component that handles responsive design and theme application
  */
 export function Layout({ config, children }: LayoutProps) {
   const { isDarkMode, toggleDarkMode } = useTheme();
+  const { settings: accessibility } = useAccessibility();
 
   // Get layout classes based on configuration
   const layoutClasses = getLayoutClasses(config);
   const containerClasses = getContainerClasses(config);
   const backgroundClasses = getBackgroundClasses(config);
+  const paletteClasses = getPaletteClasses(config);
 
   return (
-    <div className={clsx('main-container', backgroundClasses, layoutClasses)}>
+    <div
+      className={clsx(
+        'main-container',
+        backgroundClasses,
+        paletteClasses,
+        layoutClasses,
+        accessibility.highContrast && 'high-contrast',
+        accessibility.reducedMotion && 'reduce-motion'
+      )}
+    >
       {/* Skip to main content link for accessibility */}
       <a 
         href="#main-content" 
@@ -49,6 +65,9 @@ export function Layout({ config, children }: LayoutProps) {
         </button>
       )}
 
+      {/* Accessibility settings for visitors (if enabled) */}
+      {accessibility.showControls && <AccessibilityControls />}
+
       {/* Main content wrapper */}
       <div className={clsx('content-wrapper', containerClasses)}>
         <main 
@@ -70,71 +89,108 @@ export function Layout({ config, children }: LayoutProps) {
 }
 
 /**
- * Analytics scripts component with proper validation and security
+ * Analytics scripts component with proper validation and security.
+ * Third-party scripts are only requested after the visitor opts in to their consent category.
  */
 function AnalyticsScripts({ config }: { config: LayoutProps['config'] }) {
   const { analytics } = config;
+  const { preferences } = useConsent();
+  const analyticsGranted = preferences?.analytics ?? false;
+  const marketingGranted = preferences?.marketing ?? false;
 
-  // Validate Google Analytics ID format
-  const isValidGoogleAnalyticsId = (id: string): boolean => {
-    return /^G-[A-Z0-9]{10}$/.test(id);
-  };
+  // Google Analytics setup using gtag with Consent Mode v2
+  React.useEffect(() => {
+    const measurementId = analytics.googleAnalyticsId;
+    if (!measurementId || !validateGoogleAnalyticsId(measurementId)) {
+      return;
+    }
 
-  // Validate Facebook Pixel ID format
-  const isValidFacebookPixelId = (id: string): boolean => {
-    return /^[0-9]{15,16}$/.test(id);
-  };
+    const consentState = getConsentModeState(preferences);
+
+    // Already loaded: signal changed choices instead of loading again
+    if (window.gtag) {
+      window.gtag('consent', 'update', consentState);
+      return;
+    }
+
+    if (analyticsGranted) {
+      loadGoogleAnalytics(measurementId, consentState);
+    }
+  }, [analytics.googleAnalyticsId, analyticsGranted, marketingGranted]);
 
+  // Facebook Pixel setup
   React.useEffect(() => {
-    // Google Analytics setup using modern gtag API
-    if (analytics.googleAnalyticsId && isValidGoogleAnalyticsId(analytics.googleAnalyticsId)) {
-      // Load gtag script
-      const script = document.createElement('script');
-      script.async = true;
-      script.src = `https://www.googletagmanager.com/gtag/js?id=${analytics.googleAnalyticsId}`;
-      document.head.appendChild(script);
-
-      // Initialize gtag
-      script.onload = () => {
-        (window as any).dataLayer = (window as any).dataLayer || [];
-        function gtag(...args: any[]) {
-          (window as any).dataLayer.push(args);
-        }
-        (window as any).gtag = gtag;
-        
-        gtag('js', new Date());
-        gtag('config', analytics.googleAnalyticsId, {
-          page_title: document.title,
-          page_location: window.location.href,
-          send_page_view: true
-        });
-      };
+    const pixelId = analytics.facebookPixelId;
+    if (!pixelId || !validateFacebookPixelId(pixelId)) {
+      return;
+    }
+
+    if (window.fbq) {
+      window.fbq('consent', marketingGranted ? 'grant' : 'revoke');
+      return;
     }
 
-    // Facebook Pixel setup
-    if (analytics.facebookPixelId && isValidFacebookPixelId(analytics.facebookPixelId)) {
-      (window as any).fbq = (window as any).fbq || function() {
-        ((window as any).fbq.q = (window as any).fbq.q || []).push(arguments);
-      };
-      (window as any).fbq.q = (window as any).fbq.q || [];
-      (window as any).fbq.loaded = true;
-      (window as any).fbq.version = '2.0';
-      
-      const script = document.createElement('script');
-      script.async = true;
-      script.src = 'https://connect.facebook.net/en_US/fbevents.js';
-      document.head.appendChild(script);
-      
-      script.onload = () => {
-        (window as any).fbq('init', analytics.facebookPixelId);
-        (window as any).fbq('track', 'PageView');
-      };
+    if (marketingGranted) {
+      loadFacebookPixel(pixelId);
     }
-  }, [analytics.googleAnalyticsId, analytics.facebookPixelId]);
+  }, [analytics.facebookPixelId, marketingGranted]);
 
   return null; // No need to render anything, scripts are loaded via useEffect
 }
 
+/**
+ * Load gtag.js after declaring the default (denied) and current consent state
+ */
+function loadGoogleAnalytics(measurementId: string, consentState: ConsentModeState) {
+  (window as any).dataLayer = (window as any).dataLayer || [];
+  // gtag.js only processes the arguments object, not arrays
+  window.gtag = function gtag() {
+    (window as any).dataLayer.push(arguments);
+  };
+
+  window.gtag('consent', 'default', getConsentModeState(null));
+  window.gtag('consent', 'update', consentState);
+  window.gtag('js', new Date());
+  window.gtag('config', measurementId, {
+    page_title: document.title,
+    page_location: window.location.href,
+    send_page_view: true
+  });
+
+  const script = document.createElement('script');
+  script.async = true;
+  script.src = `https://www.googletagmanager.com/gtag/js?id=${measurementId}`;
+  document.head.appendChild(script);
+}
+
+/**
+ * Load fbevents.js, queueing calls until the script is ready
+ */
+function loadFacebookPixel(pixelId: string) {
+  const fbq: any = function() {
+    if (fbq.callMethod) {
+      fbq.callMethod.apply(fbq, arguments);
+    } else {
+      fbq.queue.push(arguments);
+    }
+  };
+  fbq.push = fbq;
+  fbq.loaded = true;
+  fbq.version = '2.0';
+  fbq.queue = [];
+  window.fbq = fbq;
+  (window as any)._fbq = fbq;
+
+  fbq('consent', 'grant');
+  fbq('init', pixelId);
+  fbq('track', 'PageView');
+
+  const script = document.createElement('script');
+  script.async = true;
+  script.src = 'https://connect.facebook.net/en_US/fbevents.js';
+  document.head.appendChild(script);
+}
+
 /**
  * Get layout classes based on configuration
  */
@@ -173,18 +229,34 @@ function getContainerClasses(config: LayoutProps['config']): string {
 function getBackgroundClasses(config: LayoutProps['config']): string {
   const { theme } = config;
 
+  const gradientClass = getBackgroundGradient(theme) ? 'bg-gradient-custom' : 'bg-gradient';
+
   switch (theme.backgroundStyle) {
     case 'solid':
       return 'bg-solid';
     case 'gradient':
-      return 'bg-gradient';
+      return gradientClass;
     case 'image':
-      return theme.backgroundImage ? 'bg-image' : 'bg-gradient';
+      return theme.backgroundImage ? 'bg-image' : gradientClass;
     default:
-      return 'bg-gradient';
+      return gradientClass;
   }
 }
 
+/**
+ * Get classes enabling the optional brand palette colors and contrast adjustment
+ */
+function getPaletteClasses(config: LayoutProps['config']): string {
+  const { theme } = config;
+
+  return clsx(
+    theme.secondaryColor && validateColor(theme.secondaryColor) && 'theme-secondary',
+    theme.textColor && validateColor(theme.textColor) && 'theme-text',
+    theme.surfaceColor && validateColor(theme.surfaceColor) && 'theme-surface',
+    theme.autoContrast && 'theme-auto-contrast'
+  );
+}
+
 /**
  * ResponsiveContainer component for adaptive layouts
  */
@@ -262,47 +334,4 @@ export function AnimatedContainer({
   );
 }
 
-/**
- * AccessibilityProvider component for enhanced accessibility
- */
-export function AccessibilityProvider({ children }: { children: React.ReactNode }) {
-  React.useEffect(() => {
-    // Add focus management for keyboard navigation
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Skip to main content on Ctrl+/
-      if (e.ctrlKey && e.key === '/') {
-        e.preventDefault();
-        document.getElementById('main-content')?.focus();
-      }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, []);
-
-  // Announce page changes to screen readers
-  React.useEffect(() => {
-    const announcement = document.createElement('div');
-    announcement.setAttribute('aria-live', 'polite');
-    announcement.setAttribute('aria-atomic', 'true');
-    announcement.className = 'sr-only';
-    announcement.textContent = 'Page content loaded';
-    
-    document.body.appendChild(announcement);
-    
-    const timer = setTimeout(() => {
-      document.body.removeChild(announcement);
-    }, 1000);
-
-    return () => {
-      clearTimeout(timer);
-      if (document.body.contains(announcement)) {
-        document.body.removeChild(announcement);
-      }
-    };
-  }, []);
-
-  return <>{children}</>;
-}
-
 export default Layout;
\ No newline at end of file
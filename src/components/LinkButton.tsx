@@ -5,72 +5,42 @@
 import React from 'react';
 import { ExternalLink, Mail, Phone } from 'lucide-react';
 import { clsx } from 'clsx';
-import type { LinkButtonProps, LinkClickEvent } from '@/types/config';
-
-// Dynamic icon import utility
-const getIcon = async (iconName: string) => {
-  try {
-    const icons = await import('lucide-react');
-    const IconComponent = (icons as any)[toPascalCase(iconName)];
-    return IconComponent || icons.Link;
-  } catch {
-    const { Link } = await import('lucide-react');
-    return Link;
-  }
-};
-
-// Convert kebab-case to PascalCase for icon names
-function toPascalCase(str: string): string {
-  return str
-    .split('-')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join('');
-}
+import { SectionHeading, SectionDivider } from './LinkSection';
+import { LinkIcon } from './LinkIcon';
+import { RichText } from './RichText';
+import { EmbedBlock } from './EmbedBlock';
+import { ShareButton } from './ShareButton';
+import { useAnalytics } from './AnalyticsProvider';
+import { useAccessibility } from './AccessibilityProvider';
+import { useTheme } from './ThemeProvider';
+import { getRovingFocusIndex } from '@/utils/accessibility';
+import { getEmbedFrame, isEmbedBlock } from '@/utils/embeds';
+import { toSafeHref } from '@/utils/encoding';
+import { getRichTextPlainText } from '@/utils/rich-text';
+import { isShareableUrl } from '@/utils/share';
+import { getNextScheduleDelay, isBlockVisibleAt, isScheduledLink } from '@/utils/link-schedule';
+import { getPlatformDisplayName, getSocialPlatform, getSocialUrl } from '@/utils/social-platforms';
+import type { LinkButtonProps, LinkClickEvent, SocialClickEvent, SocialPlatform, LinkBlockConfig } from '@/types/config';
 
 /**
  * LinkButton component for individual link display
  */
-export function LinkButton({ link, theme, onLinkClick, className }: LinkButtonProps) {
-  const [IconComponent, setIconComponent] = React.useState<React.ComponentType<any> | null>(null);
-
-  // Load icon dynamically
-  React.useEffect(() => {
-    let mounted = true;
-
-    const loadIcon = async () => {
-      try {
-        const Icon = await getIcon(link.icon);
-        if (mounted) {
-          setIconComponent(() => Icon);
-        }
-      } catch (error) {
-        console.warn(`Failed to load icon "${link.icon}":`, error);
-        if (mounted) {
-          const { Link } = await import('lucide-react');
-          setIconComponent(() => Link);
-        }
-      }
-    };
-
-    loadIcon();
-
-    return () => {
-      mounted = false;
-    };
-  }, [link.icon]);
+export function LinkButton({ link, theme, onLinkClick, showShare = false, className, tabIndex }: LinkButtonProps) {
+  const { trackLinkClick } = useAnalytics();
+  const { settings: accessibility } = useAccessibility();
+  const { navigate } = useTheme();
 
   // Handle link click
   const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
     // Track click if analytics enabled
-    if (onLinkClick) {
-      const clickEvent: LinkClickEvent = {
-        linkTitle: link.title,
-        linkUrl: link.url,
-        timestamp: Date.now(),
-        featured: link.featured
-      };
-      onLinkClick(clickEvent);
-    }
+    const clickEvent: LinkClickEvent = {
+      linkTitle: link.title,
+      linkUrl: link.url,
+      timestamp: Date.now(),
+      featured: link.featured
+    };
+    trackLinkClick(clickEvent);
+    onLinkClick?.(clickEvent);
 
     // Handle special URL schemes
     if (link.url.startsWith('mailto:') || link.url.startsWith('tel:')) {
@@ -82,6 +52,13 @@ export function LinkButton({ link, theme, onLinkClick, className }: LinkButtonPr
     if (link.newTab && !link.url.startsWith('#') && !link.url.startsWith('/')) {
       e.currentTarget.target = '_blank';
       e.currentTarget.rel = 'noopener noreferrer';
+      return;
+    }
+
+    // Other pages of this site, such as another profile, open without a reload
+    const modified = e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || e.button !== 0;
+    if (link.url.startsWith('/') && !modified && navigate(link.url)) {
+      e.preventDefault();
     }
   };
 
@@ -96,30 +73,35 @@ export function LinkButton({ link, theme, onLinkClick, className }: LinkButtonPr
 
   const showExternalIcon = isExternal && link.newTab;
 
-  return (
+  const label = link.description ? `${link.title}: ${getRichTextPlainText(link.description)}` : link.title;
+
+  // The share button sits beside the link rather than inside it, since an <a> can't contain a button.
+  // It stays in the normal Tab order: roving focus only moves between the link buttons.
+  const shareable = showShare && isShareableUrl(link.url);
+
+  const button = (
     <a
-      href={link.url}
+      href={toSafeHref(link.url)}
       onClick={handleClick}
-      className={clsx('btn-link link-enter', buttonClasses, className)}
+      className={clsx('btn-link link-enter', buttonClasses, shareable && 'btn-shareable', !shareable && className)}
       target={link.newTab && isExternal ? '_blank' : undefined}
       rel={link.newTab && isExternal ? 'noopener noreferrer' : undefined}
-      aria-label={link.description ? `${link.title}: ${link.description}` : link.title}
+      aria-label={accessibility.screenReaderOptimized && showExternalIcon ? `${label} (opens in a new tab)` : label}
+      tabIndex={tabIndex}
     >
       <div className="link-content">
         {/* Icon */}
         <div className="link-icon" aria-hidden="true">
-          {IconComponent ? (
-            <IconComponent className="w-5 h-5" />
-          ) : (
-            <div className="w-5 h-5 bg-gray-300 dark:bg-gray-600 rounded animate-pulse" />
-          )}
+          <LinkIcon link={link} />
         </div>
 
         {/* Text content */}
         <div className="link-text">
           <div className="link-title">{link.title}</div>
           {link.description && (
-            <div className="link-description">{link.description}</div>
+            <div className="link-description">
+              <RichText text={link.description} interactive={false} />
+            </div>
           )}
         </div>
 
@@ -136,6 +118,22 @@ export function LinkButton({ link, theme, onLinkClick, className }: LinkButtonPr
       )}
     </a>
   );
+
+  if (!shareable) {
+    return button;
+  }
+
+  return (
+    <div className={clsx('link-item', className)}>
+      {button}
+      <ShareButton
+        title={link.title}
+        url={link.url}
+        label={`Share ${link.title}`}
+        className="link-share"
+      />
+    </div>
+  );
 }
 
 /**
@@ -161,85 +159,34 @@ export function LinkButtonSkeleton({ className }: { className?: string }) {
 export function SocialMediaButton({ 
   platform, 
   username, 
-  url,
   onSocialClick,
   className 
 }: {
-  platform: string;
+  platform: SocialPlatform;
   username: string;
-  url: string;
-  onSocialClick?: (event: any) => void;
+  onSocialClick?: (event: SocialClickEvent) => void;
   className?: string;
 }) {
-  const [IconComponent, setIconComponent] = React.useState<React.ComponentType<any> | null>(null);
+  const { trackSocialClick } = useAnalytics();
+  const definition = getSocialPlatform(platform);
 
-  // Load social media icon
-  React.useEffect(() => {
-    const loadSocialIcon = async () => {
-      try {
-        const icons = await import('lucide-react');
-        const iconMap: Record<string, string> = {
-          twitter: 'Twitter',
-          instagram: 'Instagram',
-          github: 'Github',
-          linkedin: 'Linkedin',
-          youtube: 'Youtube',
-          facebook: 'Facebook',
-          tiktok: 'Music', // TikTok uses music icon
-          discord: 'MessageCircle',
-          twitch: 'Twitch',
-          snapchat: 'Camera',
-          pinterest: 'Pin',
-          reddit: 'MessageSquare',
-          telegram: 'Send',
-          whatsapp: 'Phone',
-        };
-
-        const iconName = iconMap[platform.toLowerCase()] || 'Link';
-        const Icon = (icons as any)[iconName] || icons.Link;
-        setIconComponent(() => Icon);
-      } catch {
-        const { Link } = await import('lucide-react');
-        setIconComponent(() => Link);
-      }
-    };
+  const socialUrl = getSocialUrl(platform, username);
 
-    loadSocialIcon();
-  }, [platform]);
+  // Unknown platforms and invalid usernames have no profile URL to link to
+  if (!socialUrl) {
+    return null;
+  }
 
   const handleClick = () => {
-    if (onSocialClick) {
-      onSocialClick({
-        platform,
-        username,
-        timestamp: Date.now()
-      });
-    }
-  };
-
-  const getSocialUrl = (platform: string, username: string): string => {
-    const baseUrls: Record<string, string> = {
-      twitter: 'https://twitter.com/',
-      instagram: 'https://instagram.com/',
-      github: 'https://github.com/',
-      linkedin: 'https://linkedin.com/in/',
-      youtube: 'https://youtube.com/@',
-      facebook: 'https://facebook.com/',
-      tiktok: 'https://tiktok.com/@',
-      discord: username.startsWith('http') ? '' : 'https://discord.gg/',
-      twitch: 'https://twitch.tv/',
-      snapchat: 'https://snapchat.com/add/',
-      pinterest: 'https://pinterest.com/',
-      reddit: 'https://reddit.com/u/',
-      telegram: 'https://t.me/',
-      whatsapp: 'https://wa.me/',
+    const clickEvent: SocialClickEvent = {
+      platform,
+      username,
+      timestamp: Date.now()
     };
-
-    const baseUrl = baseUrls[platform.toLowerCase()];
-    return baseUrl ? `${baseUrl}${username}` : url;
+    trackSocialClick(clickEvent);
+    onSocialClick?.(clickEvent);
   };
 
-  const socialUrl = getSocialUrl(platform, username);
   const displayName = getPlatformDisplayName(platform);
 
   return (
@@ -252,32 +199,42 @@ export function SocialMediaButton({
       aria-label={`Visit ${displayName} profile`}
       title={`${displayName}: ${username}`}
     >
-      {IconComponent ? (
-        <IconComponent className="w-full h-full" />
-      ) : (
-        <div className="w-full h-full bg-gray-300 dark:bg-gray-600 rounded animate-pulse" />
-      )}
+      {definition && <definition.icon className="w-full h-full" />}
     </a>
   );
 }
 
 /**
- * LinksList component for rendering multiple links
+ * LinksList component for rendering multiple links, embeds, headings and dividers
  */
 export function LinksList({ 
   links, 
   theme, 
   onLinkClick,
+  showShare = false,
   className 
 }: {
-  links: LinkButtonProps['link'][];
+  links: LinkBlockConfig[];
   theme: LinkButtonProps['theme'];
   onLinkClick?: LinkButtonProps['onLinkClick'];
+  /** Show a share button next to each link */
+  showShare?: boolean;
   className?: string;
 }) {
-  const enabledLinks = links.filter(link => link.enabled);
+  const now = useScheduleClock(links);
+  // Embeds without a usable frame render nothing, so they get no roving index either
+  const visibleBlocks = links.filter(block =>
+    isBlockVisibleAt(block, now) && (!isEmbedBlock(block) || getEmbedFrame(block) !== null)
+  );
+  const { settings: accessibility } = useAccessibility();
+  const rovingFocus = useRovingFocus(accessibility.keyboardNavigation);
+  const linkCount = visibleBlocks.filter(isFocusableBlock).length;
+  let linkIndex = 0;
 
-  if (enabledLinks.length === 0) {
+  // Scheduled links may still appear once the current time is known
+  const pendingSchedule = now === null && links.some(isScheduledLink);
+
+  if (!pendingSchedule && linkCount === 0) {
     return (
       <div className={clsx('text-center py-8', className)}>
         <p className="text-gray-500 dark:text-gray-400">No links available</p>
@@ -286,19 +243,113 @@ export function LinksList({
   }
 
   return (
-    <div className={clsx('links-section', className)}>
-      {enabledLinks.map((link, index) => (
-        <LinkButton
-          key={`${link.title}-${index}`}
-          link={link}
-          theme={theme}
-          onLinkClick={onLinkClick}
-        />
-      ))}
+    <div
+      ref={rovingFocus.containerRef}
+      className={clsx('links-section', className)}
+      onKeyDown={rovingFocus.onKeyDown}
+      onFocus={rovingFocus.onFocus}
+    >
+      {visibleBlocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return <SectionHeading key={`heading-${index}`} heading={block} />;
+          case 'divider':
+            return <SectionDivider key={`divider-${index}`} divider={block} />;
+          case 'video':
+          case 'music':
+          case 'map':
+            return (
+              <EmbedBlock
+                key={`${block.type}-${block.title}-${index}`}
+                block={block}
+                buttonClassName={getButtonClasses(theme, false)}
+                onLinkClick={onLinkClick}
+                tabIndex={rovingFocus.getTabIndex(linkIndex++, linkCount)}
+              />
+            );
+          default:
+            return (
+              <LinkButton
+                key={`${block.title}-${index}`}
+                link={block}
+                theme={theme}
+                onLinkClick={onLinkClick}
+                showShare={showShare}
+                tabIndex={rovingFocus.getTabIndex(linkIndex++, linkCount)}
+              />
+            );
+        }
+      })}
     </div>
   );
 }
 
+/**
+ * Roving focus over the link buttons: only one of them is in the tab order and the arrow keys,
+ * Home and End move focus between them. Does nothing when disabled.
+ */
+function useRovingFocus(enabled: boolean) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+
+  const getItems = () => Array.from(containerRef.current?.querySelectorAll<HTMLElement>('a.btn-link, button.btn-link') ?? []);
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!enabled) {
+      return;
+    }
+    const items = getItems();
+    const current = items.indexOf(e.target as HTMLElement);
+    const next = current === -1 ? null : getRovingFocusIndex(e.key, current, items.length);
+    if (next !== null) {
+      e.preventDefault();
+      items[next].focus();
+    }
+  };
+
+  const onFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const index = enabled ? getItems().indexOf(e.target as HTMLElement) : -1;
+    if (index !== -1) {
+      setActiveIndex(index);
+    }
+  };
+
+  // Falls back to the first link when the active one is no longer shown
+  const getTabIndex = (index: number, count: number) => {
+    if (!enabled) {
+      return undefined;
+    }
+    return index === (activeIndex < count ? activeIndex : 0) ? 0 : -1;
+  };
+
+  return { containerRef, onKeyDown, onFocus, getTabIndex };
+}
+
+/**
+ * Current time for scheduled links, updated when the next link appears or disappears.
+ * Starts as null so pre-rendered and hydrated markup agree.
+ */
+function useScheduleClock(links: LinkBlockConfig[]): number | null {
+  const [now, setNow] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (now === null) {
+      setNow(Date.now());
+      return;
+    }
+
+    const delay = getNextScheduleDelay(links, now);
+    if (delay === null) {
+      return;
+    }
+
+    const timer = setTimeout(() => setNow(Date.now()), delay);
+    return () => clearTimeout(timer);
+  }, [links, now]);
+
+  return now;
+}
+
 /**
  * SpecialLinkButton for special link types (email, phone, etc.)
  */
@@ -358,6 +409,12 @@ export function SpecialLinkButton({
 }
 
 // Utility functions
+
+// Blocks rendered as a link or embed button, which take part in roving focus
+function isFocusableBlock(block: LinkBlockConfig): boolean {
+  return block.type === undefined || block.type === 'link' || isEmbedBlock(block);
+}
+
 function getButtonClasses(theme: LinkButtonProps['theme'], featured: boolean): string {
   const classes = [];
 
@@ -382,25 +439,4 @@ function getButtonClasses(theme: LinkButtonProps['theme'], featured: boolean): s
   return clsx(classes);
 }
 
-function getPlatformDisplayName(platform: string): string {
-  const displayNames: Record<string, string> = {
-    twitter: 'Twitter/X',
-    instagram: 'Instagram',
-    github: 'GitHub',
-    linkedin: 'LinkedIn',
-    youtube: 'YouTube',
-    facebook: 'Facebook',
-    tiktok: 'TikTok',
-    discord: 'Discord',
-    twitch: 'Twitch',
-    snapchat: 'Snapchat',
-    pinterest: 'Pinterest',
-    reddit: 'Reddit',
-    telegram: 'Telegram',
-    whatsapp: 'WhatsApp',
-  };
-
-  return displayNames[platform.toLowerCase()] || platform;
-}
-
 export default LinkButton;
\ No newline at end of file
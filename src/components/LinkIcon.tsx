@@ -0,0 +1,118 @@
+/**
+ * LinkIcon component for the icon in front of a link's title
+ */
+
+import React from 'react';
+import { Link, Mail, Phone } from 'lucide-react';
+import { BRAND_ICONS, getBrandIconColors } from '@/utils/brand-icons';
+import { devLog } from '@/utils/dev-log';
+import { getBundledIcon, getMissingIcon } from '@/utils/icon-registry';
+import { getLinkIconChain } from '@/utils/link-icons';
+import type { BrandIconName, LinkConfig, LinkIconSource } from '@/types/config';
+
+type IconComponent = React.ComponentType<{ className?: string }>;
+
+const DEFAULT_ICONS: Record<'mail' | 'phone' | 'link', IconComponent> = {
+  mail: Mail,
+  phone: Phone,
+  link: Link,
+};
+
+// Identifies an icon source so failed ones are skipped
+function getSourceKey(source: LinkIconSource): string {
+  return JSON.stringify(source);
+}
+
+/**
+ * Whether a source can render. Only the Lucide icons the configuration referred to at build
+ * time are bundled; other names give way to the next icon in the chain.
+ */
+function isAvailable(source: LinkIconSource): boolean {
+  return source.type !== 'lucide' || !!getBundledIcon(source.name);
+}
+
+/**
+ * LinkIcon component. Icons that fail to render (an image that doesn't load, a Lucide icon
+ * missing from the build) give way to the next icon in the chain, ending with a generic icon.
+ */
+export function LinkIcon({ link }: { link: Pick<LinkConfig, 'icon' | 'url'> }) {
+  const chain = React.useMemo(() => getLinkIconChain(link), [link.icon, link.url]);
+  const [failed, setFailed] = React.useState<string[]>([]);
+
+  const source = chain.find(candidate => isAvailable(candidate) && !failed.includes(getSourceKey(candidate)))
+    ?? chain[chain.length - 1];
+  const sourceKey = getSourceKey(source);
+  const missingIcon = getMissingIcon(link.icon);
+
+  const fail = React.useCallback((key: string) => {
+    setFailed(current => current.includes(key) ? current : [...current, key]);
+  }, []);
+
+  React.useEffect(() => {
+    if (missingIcon) {
+      devLog('warn', `Unknown icon "${missingIcon}" or not in the icon registry built from config.json; using a fallback icon`);
+    }
+  }, [missingIcon]);
+
+  switch (source.type) {
+    case 'image':
+      return (
+        <img
+          // An image that failed before hydration never fires onError
+          ref={(img) => {
+            if (img?.complete && img.naturalWidth === 0) {
+              fail(sourceKey);
+            }
+          }}
+          src={source.src}
+          alt=""
+          width={20}
+          height={20}
+          loading="lazy"
+          decoding="async"
+          className="link-icon-image"
+          onError={() => fail(sourceKey)}
+        />
+      );
+    case 'emoji':
+      return <span className="link-icon-emoji">{source.emoji}</span>;
+    case 'brand':
+      return <BrandIcon name={source.name} className="w-5 h-5" />;
+    case 'lucide': {
+      // Only chosen when bundled, see isAvailable
+      const Icon = getBundledIcon(source.name) ?? DEFAULT_ICONS.link;
+      return <Icon className="w-5 h-5" />;
+    }
+    default: {
+      const Icon = DEFAULT_ICONS[source.kind];
+      return <Icon className="w-5 h-5" />;
+    }
+  }
+}
+
+/**
+ * BrandIcon component drawing a registry icon in its brand color where that color is
+ * legible on the button, and in the text color elsewhere
+ */
+export function BrandIcon({ name, className }: { name: BrandIconName; className?: string }) {
+  const { path } = BRAND_ICONS[name];
+  const colors = getBrandIconColors(name);
+
+  return (
+    <svg
+      viewBox="0 0 24 24"
+      fill="currentColor"
+      focusable="false"
+      aria-hidden="true"
+      className={className ? `brand-icon ${className}` : 'brand-icon'}
+      style={{
+        '--brand-color-light': colors.light ?? undefined,
+        '--brand-color-dark': colors.dark ?? undefined,
+      } as React.CSSProperties}
+    >
+      <path d={path} />
+    </svg>
+  );
+}
+
+export default LinkIcon;
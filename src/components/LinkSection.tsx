@@ -0,0 +1,37 @@
+/**
+ * Section components for structuring the links list
+ */
+
+import { clsx } from 'clsx';
+import type { HeadingConfig, DividerConfig } from '@/types/config';
+
+/**
+ * SectionHeading component for heading blocks between links
+ */
+export function SectionHeading({
+  heading,
+  className
+}: {
+  heading: HeadingConfig;
+  className?: string;
+}) {
+  return (
+    <h2 className={clsx('link-heading link-enter', className)}>
+      {heading.text}
+    </h2>
+  );
+}
+
+/**
+ * SectionDivider component for divider blocks between links
+ */
+export function SectionDivider({
+  className
+}: {
+  divider?: DividerConfig;
+  className?: string;
+}) {
+  return <hr className={clsx('link-divider', className)} />;
+}
+
+export default SectionHeading;
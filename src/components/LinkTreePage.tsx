@@ -0,0 +1,74 @@
+/**
+ * LinkTreePage component composing the profile page from the configuration store
+ */
+
+import { useEffect } from 'react';
+import { Layout } from './Layout';
+import { Profile } from './Profile';
+import { LinksList } from './LinkButton';
+import { SocialMedia, getSocialMediaLabel, showSocialMediaAt } from './SocialMedia';
+import { useConfig } from './ThemeProvider';
+import { AnalyticsProvider } from './AnalyticsProvider';
+import { ConsentProvider } from './ConsentProvider';
+import { AccessibilityProvider } from './AccessibilityProvider';
+import { syncServiceWorker } from '@/utils/pwa';
+
+/**
+ * LinkTreePage component. As a preview it renders without consent and analytics,
+ * so editing never loads third-party scripts or records clicks.
+ */
+export function LinkTreePage({ preview = false }: { preview?: boolean }) {
+  const config = useConfig();
+
+  // The installable app only exists for the published page, never for the editor preview
+  useEffect(() => {
+    if (!preview) {
+      syncServiceWorker(config.advanced.enablePWA);
+    }
+  }, [preview, config.advanced.enablePWA]);
+
+  const page = (
+    <AccessibilityProvider accessibility={config.accessibility}>
+      <Layout config={config}>
+        <div className="w-full max-w-md mx-auto space-y-8">
+          {config.layout.showProfileFirst && <Profile profile={config.profile} socialMedia={config.socialMedia} showShare={config.advanced.enableSharing} />}
+          {showSocialMediaAt(config.layout, 'top') && (
+            <SocialMedia
+              socialMedia={config.socialMedia}
+              position="top"
+              label={getSocialMediaLabel(config.layout, 'top')}
+            />
+          )}
+          <LinksList
+            links={config.links}
+            theme={config.theme}
+            showShare={config.advanced.enableSharing}
+            className="links-container"
+          />
+          {showSocialMediaAt(config.layout, 'bottom') && (
+            <SocialMedia
+              socialMedia={config.socialMedia}
+              position="bottom"
+              label={getSocialMediaLabel(config.layout, 'bottom')}
+            />
+          )}
+          {!config.layout.showProfileFirst && <Profile profile={config.profile} socialMedia={config.socialMedia} showShare={config.advanced.enableSharing} />}
+        </div>
+      </Layout>
+    </AccessibilityProvider>
+  );
+
+  if (preview) {
+    return page;
+  }
+
+  return (
+    <ConsentProvider analytics={config.analytics}>
+      <AnalyticsProvider analytics={config.analytics}>
+        {page}
+      </AnalyticsProvider>
+    </ConsentProvider>
+  );
+}
+
+export default LinkTreePage;
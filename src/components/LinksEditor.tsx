@@ -0,0 +1,330 @@
+/**
+ * LinksEditor component for editing and reordering the links list
+ */
+
+import React from 'react';
+import { clsx } from 'clsx';
+import { ArrowDown, ArrowUp, GripVertical, Trash2 } from 'lucide-react';
+import { TextField, ToggleField, useFieldIssues } from './EditorFields';
+import { moveItem } from '@/utils/config-editor';
+import { getEmbedProviderNames } from '@/utils/embeds';
+import type { LinkBlockConfig, LinkBlockType } from '@/types/config';
+
+const NEW_BLOCKS: Record<LinkBlockType, () => LinkBlockConfig> = {
+  link: () => ({
+    type: 'link',
+    title: 'New link',
+    url: 'https://example.com',
+    enabled: true,
+    newTab: true,
+    featured: false,
+  }),
+  heading: () => ({ type: 'heading', text: 'New section', enabled: true }),
+  divider: () => ({ type: 'divider', enabled: true }),
+  video: () => ({ type: 'video', title: 'New video', url: '', enabled: true }),
+  music: () => ({ type: 'music', title: 'New music player', url: '', enabled: true }),
+  map: () => ({ type: 'map', title: 'Find us', location: '', enabled: true }),
+};
+
+const EMBED_URL_HINTS = {
+  video: `${getEmbedProviderNames('video')} video or playlist`,
+  music: `${getEmbedProviderNames('music')} track, album or playlist`,
+};
+
+/**
+ * LinksEditor component with drag-and-drop and keyboard reordering
+ */
+export function LinksEditor({
+  links,
+  onChange
+}: {
+  links: LinkBlockConfig[];
+  onChange: (links: LinkBlockConfig[]) => void;
+}) {
+  // Stable keys so inputs keep focus while rows move around
+  const nextId = React.useRef(links.length);
+  const [ids, setIds] = React.useState(() => links.map((_, index) => index));
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const [dropIndex, setDropIndex] = React.useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= links.length || from === to) {
+      return;
+    }
+    setIds(moveItem(ids, from, to));
+    onChange(moveItem(links, from, to));
+  };
+
+  const add = (type: LinkBlockType) => {
+    setIds([...ids, nextId.current++]);
+    onChange([...links, NEW_BLOCKS[type]()]);
+  };
+
+  const remove = (index: number) => {
+    setIds(ids.filter((_, i) => i !== index));
+    onChange(links.filter((_, i) => i !== index));
+  };
+
+  const update = (index: number, block: LinkBlockConfig) => {
+    onChange(links.map((current, i) => (i === index ? block : current)));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      move(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="editor-links">
+      <ol className="editor-links-list">
+        {links.map((block, index) => (
+          <li
+            key={ids[index] ?? `extra-${index}`}
+            className={clsx(
+              'editor-link-row',
+              dragIndex === index && 'editor-link-row-dragging',
+              dropIndex === index && dragIndex !== index && 'editor-link-row-drop'
+            )}
+            onDragOver={(e) => {
+              if (dragIndex !== null) {
+                e.preventDefault();
+                setDropIndex(index);
+              }
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+          >
+            <div className="editor-link-toolbar">
+              <span
+                className="editor-drag-handle"
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', String(index));
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                title="Drag to reorder"
+              >
+                <GripVertical className="w-4 h-4" aria-hidden="true" />
+              </span>
+              <span className="editor-link-summary">{describeBlock(block)}</span>
+              <button
+                type="button"
+                onClick={() => move(index, index - 1)}
+                disabled={index === 0}
+                className="editor-icon-button"
+                aria-label={`Move ${describeBlock(block)} up`}
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, index + 1)}
+                disabled={index === links.length - 1}
+                className="editor-icon-button"
+                aria-label={`Move ${describeBlock(block)} down`}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="editor-icon-button"
+                aria-label={`Remove ${describeBlock(block)}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <LinkBlockFields
+              block={block}
+              prefix={`links[${index}]`}
+              onChange={(next) => update(index, next)}
+            />
+          </li>
+        ))}
+      </ol>
+
+      <div className="editor-actions">
+        <button type="button" className="editor-button" onClick={() => add('link')}>Add link</button>
+        <button type="button" className="editor-button" onClick={() => add('heading')}>Add heading</button>
+        <button type="button" className="editor-button" onClick={() => add('divider')}>Add divider</button>
+        <button type="button" className="editor-button" onClick={() => add('video')}>Add video</button>
+        <button type="button" className="editor-button" onClick={() => add('music')}>Add music</button>
+        <button type="button" className="editor-button" onClick={() => add('map')}>Add map</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Fields for one entry of the links list
+ */
+function LinkBlockFields({
+  block,
+  prefix,
+  onChange
+}: {
+  block: LinkBlockConfig;
+  prefix: string;
+  onChange: (block: LinkBlockConfig) => void;
+}) {
+  const typeIssues = useFieldIssues(`${prefix}.type`);
+  const enabledField = (
+    <ToggleField
+      label="Visible"
+      field={`${prefix}.enabled`}
+      checked={block.enabled}
+      onChange={(enabled) => onChange({ ...block, enabled })}
+    />
+  );
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <div className="editor-link-fields">
+          <TextField
+            label="Heading"
+            field={`${prefix}.text`}
+            value={block.text}
+            onChange={(text) => onChange({ ...block, text })}
+          />
+          {enabledField}
+        </div>
+      );
+    case 'divider':
+      return <div className="editor-link-fields">{enabledField}</div>;
+    case 'video':
+    case 'music':
+    case 'map':
+      return (
+        <div className="editor-link-fields">
+          <TextField
+            label="Title"
+            field={`${prefix}.title`}
+            value={block.title}
+            onChange={(title) => onChange({ ...block, title })}
+          />
+          {block.type === 'map' ? (
+            <TextField
+              label="Location"
+              field={`${prefix}.location`}
+              value={block.location}
+              hint="Address, place name or latitude,longitude"
+              onChange={(location) => onChange({ ...block, location })}
+            />
+          ) : (
+            <TextField
+              label="URL"
+              field={`${prefix}.url`}
+              type="url"
+              value={block.url}
+              hint={EMBED_URL_HINTS[block.type]}
+              onChange={(url) => onChange({ ...block, url })}
+            />
+          )}
+          <TextField
+            label="Description"
+            field={`${prefix}.description`}
+            value={block.description}
+            onChange={(description) => onChange({ ...block, description })}
+          />
+          {enabledField}
+        </div>
+      );
+    case undefined:
+    case 'link':
+      return (
+        <div className="editor-link-fields">
+          <TextField
+            label="Title"
+            field={`${prefix}.title`}
+            value={block.title}
+            onChange={(title) => onChange({ ...block, title })}
+          />
+          <TextField
+            label="URL"
+            field={`${prefix}.url`}
+            type="url"
+            value={block.url}
+            onChange={(url) => onChange({ ...block, url })}
+          />
+          <TextField
+            label="Description"
+            field={`${prefix}.description`}
+            value={block.description}
+            hint="Supports **bold**, *italic* and line breaks"
+            onChange={(description) => onChange({ ...block, description })}
+          />
+          <TextField
+            label="Icon"
+            field={`${prefix}.icon`}
+            value={block.icon}
+            hint="Icon name (globe, spotify), emoji or image URL; empty picks one from the URL"
+            onChange={(icon) => onChange({ ...block, icon })}
+          />
+          <TextField
+            label="Show from"
+            field={`${prefix}.startsAt`}
+            value={block.startsAt}
+            placeholder="2025-06-01T09:00:00Z"
+            onChange={(startsAt) => onChange({ ...block, startsAt: startsAt || undefined })}
+          />
+          <TextField
+            label="Hide from"
+            field={`${prefix}.endsAt`}
+            value={block.endsAt}
+            placeholder="2025-06-30T23:59:59Z"
+            onChange={(endsAt) => onChange({ ...block, endsAt: endsAt || undefined })}
+          />
+          {enabledField}
+          <ToggleField
+            label="Open in new tab"
+            field={`${prefix}.newTab`}
+            checked={block.newTab}
+            onChange={(newTab) => onChange({ ...block, newTab })}
+          />
+          <ToggleField
+            label="Featured"
+            field={`${prefix}.featured`}
+            checked={block.featured}
+            onChange={(featured) => onChange({ ...block, featured })}
+          />
+        </div>
+      );
+    default:
+      return (
+        <div className="editor-link-fields">
+          {typeIssues.errors.map(message => (
+            <p key={message} className="editor-error">{message}</p>
+          ))}
+        </div>
+      );
+  }
+}
+
+function describeBlock(block: LinkBlockConfig): string {
+  switch (block.type) {
+    case 'heading':
+      return `Heading: ${block.text || 'untitled'}`;
+    case 'divider':
+      return 'Divider';
+    case 'video':
+    case 'music':
+    case 'map':
+      return `${block.type.charAt(0).toUpperCase()}${block.type.slice(1)}: ${block.title || 'untitled'}`;
+    default:
+      return block.title || 'Untitled link';
+  }
+}
+
+export default LinksEditor;
@@ -0,0 +1,43 @@
+/**
+ * NotFoundPage component for paths without a page
+ */
+
+import React from 'react';
+import { Home } from 'lucide-react';
+import { Layout } from './Layout';
+import { useTheme } from './ThemeProvider';
+import { AccessibilityProvider } from './AccessibilityProvider';
+import { NOT_FOUND_TITLE } from '@/utils/profiles';
+
+/**
+ * NotFoundPage component. It uses the shared theme, so it looks like the rest of the site,
+ * and links back to the home page.
+ */
+export function NotFoundPage() {
+  const { config, navigate } = useTheme();
+  const homeUrl = import.meta.env.BASE_URL;
+
+  const handleHomeClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    const modified = e.metaKey || e.ctrlKey || e.shiftKey || e.altKey || e.button !== 0;
+    if (!modified && navigate(homeUrl)) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <AccessibilityProvider accessibility={config.accessibility}>
+      <Layout config={config}>
+        <div className="w-full max-w-md mx-auto profile-section">
+          <h1 className="profile-name">{NOT_FOUND_TITLE}</h1>
+          <p className="profile-bio">There is no page at this address. It may have moved or been removed.</p>
+          <a href={homeUrl} onClick={handleHomeClick} className="profile-action inline-flex items-center gap-1.5 focus-ring">
+            <Home className="w-4 h-4" aria-hidden="true" />
+            Go to the home page
+          </a>
+        </div>
+      </Layout>
+    </AccessibilityProvider>
+  );
+}
+
+export default NotFoundPage;
@@ -5,12 +5,19 @@
 import React from 'react';
 import { MapPin } from 'lucide-react';
 import { clsx } from 'clsx';
+import { RichText } from './RichText';
+import { SaveContactButton } from './SaveContactButton';
+import { ShareButton } from './ShareButton';
+import { getRichTextPlainText } from '@/utils/rich-text';
+import { hasContactDetails } from '@/utils/vcard';
 import type { ProfileProps } from '@/types/config';
 
 /**
  * Profile component that displays user avatar, name, bio, and location
  */
-export function Profile({ profile, className }: ProfileProps) {
+export function Profile({ profile, socialMedia, showShare = false, className }: ProfileProps) {
+  const showContact = hasContactDetails(profile.contact);
+
   const handleImageError = (e: React.SyntheticEvent<HTMLImageElement>) => {
     const img = e.target as HTMLImageElement;
     img.src = 'https://via.placeholder.com/400x400/6366f1/ffffff?text=Profile';
@@ -55,7 +62,7 @@ export function Profile({ profile, className }: ProfileProps) {
       {/* Profile Bio */}
       {profile.bio && (
         <p className="profile-bio">
-          {profile.bio}
+          <RichText text={profile.bio} socialMedia={socialMedia} />
         </p>
       )}
 
@@ -67,6 +74,21 @@ export function Profile({ profile, className }: ProfileProps) {
         </div>
       )}
 
+      {/* Save contact and share this page */}
+      {(showContact || showShare) && (
+        <div className="profile-actions">
+          {showContact && <SaveContactButton profile={profile} className="profile-action" />}
+          {showShare && (
+            <ShareButton
+              title={profile.name}
+              label="Share this page"
+              showLabel
+              className="profile-action"
+            />
+          )}
+        </div>
+      )}
+
       {/* Structured data for SEO - removed for security */}
       <script 
         type="application/ld+json"
@@ -78,7 +100,7 @@ export function Profile({ profile, className }: ProfileProps) {
               "@context": "https://schema.org",
               "@type": "Person",
               "name": profile.name,
-              "description": profile.bio,
+              "description": getRichTextPlainText(profile.bio),
               "image": profile.avatar,
               ...(profile.location && { "address": profile.location })
             };
@@ -184,7 +206,7 @@ export function ProfileBadge({
         
         {profile.bio && (
           <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
-            {profile.bio}
+            {getRichTextPlainText(profile.bio)}
           </p>
         )}
         
@@ -230,7 +252,7 @@ export function ProfileCard({
       
       {profile.bio && (
         <p className="text-gray-600 dark:text-gray-400 mb-3">
-          {profile.bio}
+          <RichText text={profile.bio} />
         </p>
       )}
       
@@ -0,0 +1,61 @@
+/**
+ * RichText component for markdown-lite bios and descriptions
+ */
+
+import React from 'react';
+import { getMentionUrl, parseRichText } from '@/utils/rich-text';
+import type { RichTextNode, SocialMediaConfig } from '@/types/config';
+
+/**
+ * RichText component. Renders the parsed nodes as React elements, so text is escaped like any
+ * other React child. Inside a link button `interactive` is off: links and mentions render as
+ * plain text because an <a> can't contain another.
+ */
+export function RichText({
+  text,
+  socialMedia = {},
+  interactive = true
+}: {
+  text: string;
+  /** Accounts that @mentions link to */
+  socialMedia?: SocialMediaConfig;
+  interactive?: boolean;
+}) {
+  const nodes = React.useMemo(() => parseRichText(text), [text]);
+  return <>{renderNodes(nodes, socialMedia, interactive)}</>;
+}
+
+function renderNodes(nodes: RichTextNode[], socialMedia: SocialMediaConfig, interactive: boolean): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderNodes(node.children, socialMedia, interactive)}</strong>;
+      case 'em':
+        return <em key={index}>{renderNodes(node.children, socialMedia, interactive)}</em>;
+      case 'break':
+        return <br key={index} />;
+      case 'link':
+        return interactive ? (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="rich-text-link">
+            {node.text}
+          </a>
+        ) : (
+          <React.Fragment key={index}>{node.text}</React.Fragment>
+        );
+      case 'mention': {
+        const url = interactive ? getMentionUrl(node.handle, socialMedia) : null;
+        return url ? (
+          <a key={index} href={url} target="_blank" rel="noopener noreferrer" className="rich-text-mention">
+            @{node.handle}
+          </a>
+        ) : (
+          <span key={index} className="rich-text-mention">@{node.handle}</span>
+        );
+      }
+    }
+  });
+}
+
+export default RichText;
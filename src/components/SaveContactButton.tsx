@@ -0,0 +1,45 @@
+/**
+ * SaveContactButton component for downloading the profile as a contact card
+ */
+
+import React from 'react';
+import { UserPlus } from 'lucide-react';
+import { clsx } from 'clsx';
+import { downloadBlob } from '@/utils/download';
+import { getPageShareUrl } from '@/utils/share';
+import { createVCard, getVCardFileName, getVCardPhoto } from '@/utils/vcard';
+import type { ProfileConfig } from '@/types/config';
+
+/**
+ * SaveContactButton component: generates a vCard with the avatar embedded and saves it.
+ * Avatars on hosts that don't allow CORS are left out of the card.
+ */
+export function SaveContactButton({ profile, className }: { profile: ProfileConfig; className?: string }) {
+  const [saving, setSaving] = React.useState(false);
+
+  const handleClick = async () => {
+    setSaving(true);
+    try {
+      const photo = profile.avatar ? await getVCardPhoto(profile.avatar) : null;
+      const card = createVCard(profile, { photo, pageUrl: getPageShareUrl() });
+      downloadBlob(new Blob([card], { type: 'text/vcard;charset=utf-8' }), getVCardFileName(profile.name));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saving}
+      aria-busy={saving}
+      className={clsx('save-contact-button no-print', className)}
+    >
+      <UserPlus className="w-4 h-4" aria-hidden="true" />
+      <span>Save contact</span>
+    </button>
+  );
+}
+
+export default SaveContactButton;
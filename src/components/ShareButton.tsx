@@ -0,0 +1,71 @@
+/**
+ * ShareButton component for opening the share sheet
+ */
+
+import React from 'react';
+import { Share2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { getPageShareUrl, getShareUrl } from '@/utils/share';
+import type { ShareTarget } from '@/types/config';
+
+// The sheet and its QR code encoder are only downloaded once a visitor opens it
+const ShareSheet = React.lazy(() => import('./ShareSheet'));
+
+/**
+ * ShareButton component: opens the share sheet for a link, or for the current page when no URL
+ * is given. The URL is resolved on click, so pre-rendered markup doesn't depend on the host.
+ */
+export function ShareButton({
+  title,
+  url,
+  label,
+  showLabel = false,
+  className
+}: {
+  title: string;
+  url?: string;
+  /** Accessible name, e.g. "Share My Blog" */
+  label: string;
+  /** Show "Share" next to the icon */
+  showLabel?: boolean;
+  className?: string;
+}) {
+  const [target, setTarget] = React.useState<ShareTarget | null>(null);
+  const buttonRef = React.useRef<HTMLButtonElement>(null);
+
+  const open = () => {
+    const shareUrl = url === undefined ? getPageShareUrl() : getShareUrl(url);
+    if (shareUrl) {
+      setTarget({ title, url: shareUrl });
+    }
+  };
+
+  const close = () => {
+    setTarget(null);
+    buttonRef.current?.focus();
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={open}
+        className={clsx('share-button no-print', className)}
+        aria-label={label}
+        aria-haspopup="dialog"
+        title={label}
+      >
+        <Share2 className="w-4 h-4" aria-hidden="true" />
+        {showLabel && <span>Share</span>}
+      </button>
+      {target && (
+        <React.Suspense fallback={null}>
+          <ShareSheet target={target} onClose={close} />
+        </React.Suspense>
+      )}
+    </>
+  );
+}
+
+export default ShareButton;
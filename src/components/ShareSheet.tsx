@@ -0,0 +1,177 @@
+/**
+ * ShareSheet component for sharing the page or a single link
+ */
+
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { Copy, Download, QrCode, Share2, X } from 'lucide-react';
+import { downloadBlob } from '@/utils/download';
+import { createQrCode, getQrCodeFileName, getQrCodePng, getQrCodeSvg } from '@/utils/qr-code';
+import { canUseWebShare, copyShareUrl, shareOrCopy } from '@/utils/share';
+import type { ShareResult, ShareTarget } from '@/types/config';
+
+const RESULT_MESSAGES: Record<ShareResult, string> = {
+  shared: '',
+  cancelled: '',
+  copied: 'Link copied to the clipboard',
+  failed: "Couldn't copy the link. Select it above and copy it instead.",
+};
+
+/**
+ * ShareSheet component: a modal dialog to share, copy or show a QR code for the target.
+ * Loaded on demand by ShareButton.
+ */
+export function ShareSheet({ target, onClose }: { target: ShareTarget; onClose: () => void }) {
+  const [message, setMessage] = React.useState('');
+  const [showQrCode, setShowQrCode] = React.useState(false);
+  const dialogRef = React.useRef<HTMLElement>(null);
+  const titleId = React.useId();
+  const qrCodeId = React.useId();
+
+  const webShare = canUseWebShare(target);
+  const qrCode = React.useMemo(() => (showQrCode ? createQrCode(target.url) : null), [showQrCode, target.url]);
+
+  React.useEffect(() => {
+    dialogRef.current?.querySelector<HTMLElement>('.share-action')?.focus();
+  }, []);
+
+  const handleShare = async () => {
+    const result = await shareOrCopy(target);
+    if (result === 'shared') {
+      onClose();
+      return;
+    }
+    setMessage(RESULT_MESSAGES[result]);
+  };
+
+  const handleCopy = async () => {
+    setMessage(RESULT_MESSAGES[await copyShareUrl(target.url)]);
+  };
+
+  const handleDownloadSvg = () => {
+    if (qrCode) {
+      const blob = new Blob([getQrCodeSvg(qrCode)], { type: 'image/svg+xml' });
+      downloadBlob(blob, getQrCodeFileName(target.title, 'svg'));
+    }
+  };
+
+  const handleDownloadPng = async () => {
+    const blob = qrCode && await getQrCodePng(qrCode);
+    if (blob) {
+      downloadBlob(blob, getQrCodeFileName(target.title, 'png'));
+    }
+  };
+
+  // Escape closes the sheet and Tab stays inside it while it is open
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab') {
+      return;
+    }
+
+    const focusable = Array.from(dialogRef.current?.querySelectorAll<HTMLElement>('button, input') ?? []);
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  // Rendered into <body> so transformed ancestors such as animated buttons don't offset it
+  return createPortal(
+    <div className="share-backdrop no-print" onClick={onClose}>
+      <section
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="share-sheet"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="share-sheet-header">
+          <h2 id={titleId} className="share-sheet-title">Share {target.title}</h2>
+          <button type="button" className="share-close" onClick={onClose} aria-label="Close">
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          readOnly
+          value={target.url}
+          className="share-url"
+          aria-label="Link"
+          onFocus={(e) => e.currentTarget.select()}
+        />
+
+        <div className="share-actions">
+          {webShare && (
+            <button type="button" className="share-action" onClick={handleShare}>
+              <Share2 className="w-4 h-4" aria-hidden="true" />
+              Share…
+            </button>
+          )}
+          <button type="button" className="share-action" onClick={handleCopy}>
+            <Copy className="w-4 h-4" aria-hidden="true" />
+            Copy link
+          </button>
+          <button
+            type="button"
+            className="share-action"
+            onClick={() => setShowQrCode(!showQrCode)}
+            aria-expanded={showQrCode}
+            aria-controls={qrCodeId}
+          >
+            <QrCode className="w-4 h-4" aria-hidden="true" />
+            QR code
+          </button>
+        </div>
+
+        <p role="status" className="share-status">{message}</p>
+
+        {showQrCode && (
+          <div id={qrCodeId} className="share-qr">
+            {qrCode ? (
+              <>
+                <svg
+                  viewBox={`0 0 ${qrCode.size} ${qrCode.size}`}
+                  shapeRendering="crispEdges"
+                  className="share-qr-code"
+                  role="img"
+                  aria-label={`QR code for ${target.url}`}
+                >
+                  <rect width={qrCode.size} height={qrCode.size} fill="#ffffff" />
+                  <path d={qrCode.path} fill="#000000" />
+                </svg>
+                <div className="share-actions">
+                  <button type="button" className="share-action" onClick={handleDownloadSvg}>
+                    <Download className="w-4 h-4" aria-hidden="true" />
+                    Download SVG
+                  </button>
+                  <button type="button" className="share-action" onClick={handleDownloadPng}>
+                    <Download className="w-4 h-4" aria-hidden="true" />
+                    Download PNG
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="share-status">This link is too long for a QR code.</p>
+            )}
+          </div>
+        )}
+      </section>
+    </div>,
+    document.body
+  );
+}
+
+export default ShareSheet;
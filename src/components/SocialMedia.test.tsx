@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { SocialMedia } from './SocialMedia';
+
+describe('SocialMedia', () => {
+  it('renders nothing when no username has a profile URL', () => {
+    const html = renderToStaticMarkup(
+      <SocialMedia socialMedia={{ github: 'not a username', twitter: '' }} position="top" />
+    );
+    expect(html).toBe('');
+  });
+
+  it('leaves invalid usernames out of the row', () => {
+    const html = renderToStaticMarkup(
+      <SocialMedia socialMedia={{ github: 'alex', twitter: 'not a username' }} position="top" />
+    );
+    expect(html).toContain('<nav');
+    expect(html).toContain('https://github.com/alex');
+    expect(html).not.toContain('twitter.com');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * SocialMedia component for the row of social profile icons
+ */
+
+import { clsx } from 'clsx';
+import { SocialMediaButton } from './LinkButton';
+import { getSocialUrl } from '@/utils/social-platforms';
+import type { LayoutConfig, SocialMediaProps, SocialPlatform } from '@/types/config';
+
+const SOCIAL_MEDIA_LABEL = 'Social media profiles';
+
+/**
+ * SocialMedia component rendering configured accounts in the order they are listed
+ */
+export function SocialMedia({ socialMedia, position, label = SOCIAL_MEDIA_LABEL, onSocialClick, className }: SocialMediaProps) {
+  // Only accounts with a profile URL get a button, so a row of invalid usernames renders no empty landmark
+  const accounts = Object.entries(socialMedia).filter(
+    ([platform, username]) => !!username && getSocialUrl(platform, username) !== null
+  );
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav
+      className={clsx('social-section', `social-section-${position}`, className)}
+      aria-label={label}
+    >
+      {accounts.map(([platform, username]) => (
+        <SocialMediaButton
+          key={platform}
+          platform={platform as SocialPlatform}
+          username={username as string}
+          onSocialClick={onSocialClick}
+        />
+      ))}
+    </nav>
+  );
+}
+
+/**
+ * Whether the social row belongs in the given slot around the links list
+ */
+export function showSocialMediaAt(layout: LayoutConfig, slot: 'top' | 'bottom'): boolean {
+  return layout.showSocialMedia &&
+    (layout.socialMediaPosition === slot || layout.socialMediaPosition === 'both');
+}
+
+/**
+ * Accessible name of the social row in a slot. With a row above and below the links,
+ * each says which one it is, so screen reader landmark lists can tell them apart.
+ */
+export function getSocialMediaLabel(layout: LayoutConfig, slot: 'top' | 'bottom'): string {
+  return layout.socialMediaPosition === 'both' ? `${SOCIAL_MEDIA_LABEL} (${slot})` : SOCIAL_MEDIA_LABEL;
+}
+
+export default SocialMedia;
@@ -1,34 +1,89 @@
 /**
- * ThemeProvider component for managing theme state and configuration
+ * ThemeProvider component for managing theme state and configuration.
+ * It owns the single configuration store for the app; components read it with useConfig.
+ * The store holds the configuration of the page for the current path: the home page or a profile.
  */
 
-import React, { createContext, useContext, useEffect, useState, useMemo } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, useMemo } from 'react';
 import { 
-  loadConfig, 
+  loadConfigDocument, 
+  mergeConfig,
   applyThemeVariables, 
   applyColorScheme, 
-  updateSEOMetadata,
-  getEffectiveColorScheme 
+  updateSEOMetadata
 } from '@/utils/config-loader';
-import type { LinkTreeConfig, ThemeContextValue, DeepPartial } from '@/types/config';
+import { getFontName, loadThemeFont } from '@/utils/fonts';
+import { getRouteKey, matchRoute, resolveRouteConfig } from '@/utils/profiles';
+import { getCanonicalUrl, getCurrentRoutePath, getSiteRoutePath, navigateTo } from '@/utils/router';
+import type { ConfigDocument, LinkTreeConfig, ThemeContextValue, DeepPartial, FontLoadingState, ProfilesConfig } from '@/types/config';
 
 // Create the theme context
+const NO_PROFILES: ProfilesConfig = {};
+
 const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
 
 interface ThemeProviderProps {
   children: React.ReactNode;
+  /** Already loaded configuration document, e.g. when hydrating pre-rendered markup */
+  initialDocument?: ConfigDocument;
+  /** Route path to show instead of following the browser location, e.g. when pre-rendering */
+  path?: string;
+}
+
+interface PageState {
+  key: string;
+  config: LinkTreeConfig;
+}
+
+/**
+ * Route path of the browser location, updated on history navigation
+ */
+function useLocationPath(): string {
+  const [path, setPath] = useState(() => typeof window === 'undefined' ? '' : getCurrentRoutePath());
+
+  useEffect(() => {
+    const handlePopState = () => setPath(getCurrentRoutePath());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return path;
 }
 
 /**
  * ThemeProvider component that manages global theme state and configuration
  */
-export function ThemeProvider({ children }: ThemeProviderProps) {
-  const [config, setConfig] = useState<LinkTreeConfig | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+export function ThemeProvider({ children, initialDocument, path: fixedPath }: ThemeProviderProps) {
+  const locationPath = useLocationPath();
+  const path = fixedPath ?? locationPath;
+
+  const [configDocument, setConfigDocument] = useState<ConfigDocument | null>(initialDocument ?? null);
+  const route = useMemo(() => matchRoute(path, configDocument ?? {}), [path, configDocument]);
+  const routeKey = getRouteKey(route);
+
+  const [page, setPage] = useState<PageState | null>(() =>
+    initialDocument ? { key: routeKey, config: resolveRouteConfig(initialDocument, route) } : null
+  );
+  const [isLoading, setIsLoading] = useState(!initialDocument);
   const [error, setError] = useState<string | null>(null);
 
+  // Another page was opened: start from its configuration, dropping changes made to the previous one
+  if (configDocument && page?.key !== routeKey) {
+    setPage({ key: routeKey, config: resolveRouteConfig(configDocument, route) });
+  }
+
+  const config = page?.config ?? null;
+
+  // Starts false so pre-rendered markup and the first client render agree
+  const [prefersDark, setPrefersDark] = useState(false);
+  const [fontLoading, setFontLoading] = useState<FontLoadingState>({});
+
   // Load configuration on mount
   useEffect(() => {
+    if (initialDocument) {
+      return;
+    }
+
     let mounted = true;
 
     const initializeConfig = async () => {
@@ -36,15 +91,10 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
         setIsLoading(true);
         setError(null);
         
-        const loadedConfig = await loadConfig();
+        const loadedDocument = await loadConfigDocument();
         
         if (mounted) {
-          setConfig(loadedConfig);
-          
-          // Apply theme immediately
-          applyThemeVariables(loadedConfig.theme);
-          applyColorScheme(loadedConfig.theme.colorScheme);
-          updateSEOMetadata(loadedConfig.seo);
+          setConfigDocument(loadedDocument);
         }
       } catch (err) {
         console.error('Failed to load configuration:', err);
@@ -65,14 +115,14 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
     };
   }, []);
 
-  // Listen for system color scheme changes
+  // Track the system color scheme
   useEffect(() => {
-    if (!config) return;
-
     const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    setPrefersDark(mediaQuery.matches);
     
     const handleChange = () => {
-      if (config.theme.colorScheme === 'auto') {
+      setPrefersDark(mediaQuery.matches);
+      if (config?.theme.colorScheme === 'auto') {
         applyColorScheme('auto');
       }
     };
@@ -81,42 +131,76 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
     return () => mediaQuery.removeEventListener('change', handleChange);
   }, [config?.theme.colorScheme]);
 
-  // Update configuration function
-  const updateConfig = (updates: DeepPartial<LinkTreeConfig>) => {
-    if (!config) return;
+  // Apply theme and SEO whenever the stored configuration changes
+  useEffect(() => {
+    if (config) {
+      applyThemeVariables(config.theme);
+      applyColorScheme(config.theme.colorScheme);
+    }
+  }, [config?.theme]);
 
-    const newConfig = mergeDeep(config, updates);
-    setConfig(newConfig);
+  useEffect(() => {
+    if (config) {
+      updateSEOMetadata(config.seo, getCanonicalUrl(route, config.seo.siteUrl));
+    }
+  }, [config?.seo, route]);
 
-    // Apply theme changes immediately
-    if (updates.theme) {
-      applyThemeVariables(newConfig.theme);
-      applyColorScheme(newConfig.theme.colorScheme);
+  // Load the theme font and track its state per family
+  useEffect(() => {
+    if (!config) {
+      return;
     }
 
-    // Apply SEO changes
-    if (updates.seo) {
-      updateSEOMetadata(newConfig.seo);
+    let current = true;
+    const name = getFontName(config.theme);
+    setFontLoading(state => state[name] === 'loaded' ? state : { ...state, [name]: 'loading' });
+    loadThemeFont(config.theme).then(status => {
+      if (current) {
+        setFontLoading(state => ({ ...state, [name]: status }));
+      }
+    });
+
+    return () => {
+      current = false;
+    };
+  }, [config?.theme.fontFamily, config?.theme.customFont]);
+
+  // Update configuration function
+  const updateConfig = useCallback((updates: DeepPartial<LinkTreeConfig>) => {
+    setPage(current => current ? { ...current, config: mergeConfig(current.config, updates) } : current);
+  }, []);
+
+  // Follows links to other pages of the site without a reload. Anything else, including the
+  // editor and paths without a page, is left to the browser.
+  const navigate = useCallback((href: string) => {
+    if (fixedPath !== undefined || !configDocument) {
+      return false;
+    }
+
+    const targetPath = getSiteRoutePath(href);
+    if (targetPath === null || matchRoute(targetPath, configDocument).type === 'not-found') {
+      return false;
     }
-  };
+
+    navigateTo(href);
+    return true;
+  }, [fixedPath, configDocument]);
 
   // Get current dark mode state
   const isDarkMode = useMemo(() => {
     if (!config) return false;
-    return getEffectiveColorScheme(config.theme.colorScheme) === 'dark';
-  }, [config?.theme.colorScheme]);
+    if (config.theme.colorScheme === 'auto') return prefersDark;
+    return config.theme.colorScheme === 'dark';
+  }, [config?.theme.colorScheme, prefersDark]);
 
   // Toggle dark mode function
-  const toggleDarkMode = () => {
-    if (!config) return;
-
-    const newColorScheme = isDarkMode ? 'light' : 'dark';
+  const toggleDarkMode = useCallback(() => {
     updateConfig({
       theme: {
-        colorScheme: newColorScheme
+        colorScheme: isDarkMode ? 'light' : 'dark'
       }
     });
-  };
+  }, [isDarkMode, updateConfig]);
 
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo<ThemeContextValue | undefined>(() => {
@@ -127,8 +211,12 @@ export function ThemeProvider({ children }: ThemeProviderProps) {
       updateConfig,
       isDarkMode,
       toggleDarkMode,
+      fontLoading,
+      route,
+      navigate,
+      profiles: configDocument?.profiles ?? NO_PROFILES,
     };
-  }, [config, isDarkMode]);
+  }, [config, isDarkMode, updateConfig, toggleDarkMode, fontLoading, route, navigate, configDocument]);
 
   // Loading state
   if (isLoading) {
@@ -199,35 +287,3 @@ export function useDarkMode(): boolean {
   const { isDarkMode } = useTheme();
   return isDarkMode;
 }
-
-/**
- * Deep merge utility function
- */
-function mergeDeep<T>(target: T, source: DeepPartial<T>): T {
-  const result = { ...target };
-  
-  for (const key in source) {
-    const sourceValue = source[key];
-    const targetValue = target[key];
-    
-    if (sourceValue === undefined) {
-      continue;
-    }
-    
-    if (
-      isObject(sourceValue) && 
-      isObject(targetValue) && 
-      !Array.isArray(sourceValue)
-    ) {
-      (result as any)[key] = mergeDeep(targetValue, sourceValue);
-    } else {
-      (result as any)[key] = sourceValue;
-    }
-  }
-  
-  return result;
-}
-
-function isObject(item: any): boolean {
-  return item && typeof item === 'object' && !Array.isArray(item);
-}
\ No newline at end of file
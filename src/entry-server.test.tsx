@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import template from '../index.html?raw';
+import { renderPage } from './entry-server';
+
+const NAME = 'Tom & Jerry "<b>"';
+
+const rawConfig = {
+  profile: { name: NAME, bio: 'Cat & mouse' },
+  seo: { title: NAME, description: `${NAME} links` },
+};
+
+// Content of the JSON-LD script element
+function getStructuredDataScript(html: string): string {
+  const match = html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/);
+  expect(match).not.toBeNull();
+  return match![1];
+}
+
+describe('renderPage', () => {
+  const html = renderPage(template, rawConfig);
+
+  it('encodes the title as element text', () => {
+    expect(html).toContain('<title>Tom &amp; Jerry "&lt;b&gt;"</title>');
+  });
+
+  it('encodes meta, Open Graph and Twitter values as attributes', () => {
+    const encoded = 'Tom &amp; Jerry &quot;&lt;b&gt;&quot;';
+    expect(html).toContain(`<meta property="og:title" content="${encoded}" />`);
+    expect(html).toContain(`<meta name="twitter:title" content="${encoded}" />`);
+    expect(html).toContain(`<meta name="description" content="${encoded} links" />`);
+    expect(html).toContain(`<meta property="og:description" content="${encoded} links" />`);
+  });
+
+  it('writes the name into the JSON-LD without markup characters', () => {
+    const script = getStructuredDataScript(html);
+    expect(script).not.toMatch(/[<>]/);
+    expect(JSON.parse(script).name).toBe(NAME);
+  });
+
+  it('never emits the name as raw markup', () => {
+    expect(html).not.toContain('<b>');
+  });
+
+  it('renders the name as text on the page', () => {
+    expect(html).toContain('Tom &amp; Jerry &quot;&lt;b&gt;&quot;</h1>');
+  });
+});
+
+describe('renderPage for a profile', () => {
+  const siteConfig = {
+    ...rawConfig,
+    seo: { ...rawConfig.seo, siteUrl: 'https://links.example.com' },
+    profiles: { alice: { seo: { title: 'Alice' } } },
+  };
+  const html = renderPage(template, siteConfig, 'alice');
+
+  it('points og:url at the profile page on the site URL', () => {
+    expect(html).toContain('<meta property="og:url" content="https://links.example.com/alice/" />');
+  });
+
+  it('uses the profile title for the home screen', () => {
+    expect(html).toContain('<meta name="apple-mobile-web-app-title" content="Alice" />');
+  });
+
+  it('points og:url at the site root on the home page', () => {
+    expect(renderPage(template, siteConfig)).toContain('<meta property="og:url" content="https://links.example.com/" />');
+  });
+
+  it('leaves og:url as in the template without a site URL', () => {
+    const templateOgUrl = template.match(/<meta property="og:url" content="[^"]*" \/>/)![0];
+    expect(renderPage(template, rawConfig, 'alice')).toContain(templateOgUrl);
+  });
+});
+
+describe('renderPage with the social row above and below the links', () => {
+  const html = renderPage(template, {
+    socialMedia: { github: 'alex' },
+    layout: { showSocialMedia: true, socialMediaPosition: 'both' },
+  });
+
+  it('gives each landmark its own name', () => {
+    expect(html).toContain('aria-label="Social media profiles (top)"');
+    expect(html).toContain('aria-label="Social media profiles (bottom)"');
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Server entry point used at build time to pre-render the home page, each profile page
+ * and the not-found page
+ */
+
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import App from './App';
+import { normalizeUserConfig } from './utils/config-loader';
+import { INLINE_CONFIG_ELEMENT_ID } from './utils/config-sources';
+import { PWA_ICON_SIZES, buildWebAppManifest, getPWAIconSources, getPWAIconUrl, getPrecacheUrls } from './utils/pwa';
+import { FONT_FACES_ELEMENT_ID, getFontFaceCss, getFontPreloads } from './utils/fonts';
+import { encodeHtmlAttribute, encodeHtmlText, encodeJsonForScript } from './utils/encoding';
+import { getRichTextPlainText } from './utils/rich-text';
+import { getInvalidProfileSlugs, getProfileSlugs, getRouteKey, matchRoute, resolveRouteConfig } from './utils/profiles';
+import { getCanonicalUrl } from './utils/router';
+import type { AppRoute, ConfigDocument, LinkTreeConfig } from './types/config';
+
+const ROOT_PATTERN = /<div id="root">[\s\S]*?<div class="loading-spinner"[^>]*><\/div>\s*<\/div>/;
+const INLINE_CONFIG_PATTERN = new RegExp(
+  `<script type="application/json" id="${INLINE_CONFIG_ELEMENT_ID}">[\\s\\S]*?</script>`
+);
+const FONT_FACES_PATTERN = new RegExp(`<style id="${FONT_FACES_ELEMENT_ID}">[\\s\\S]*?</style>`);
+const CACHE_VERSION_PATTERN = /^const CACHE_VERSION = .*;$/m;
+const PRECACHE_URLS_PATTERN = /^const PRECACHE_URLS = .*;$/m;
+
+// Route path that never matches a page, so it renders the not-found page
+const NOT_FOUND_PATH = '404';
+
+/**
+ * Reads a raw configuration document the same way the client does
+ */
+function readRawDocument(rawConfig: unknown): ConfigDocument {
+  return rawConfig && typeof rawConfig === 'object' && !Array.isArray(rawConfig)
+    ? normalizeUserConfig(rawConfig)
+    : {};
+}
+
+/**
+ * Resolves the home page configuration of a raw configuration document
+ */
+function resolveRawConfig(rawConfig: unknown): LinkTreeConfig {
+  return resolveRouteConfig(readRawDocument(rawConfig), { type: 'home' });
+}
+
+/**
+ * Route paths to pre-render: "" for the home page and one per profile
+ */
+export function getPagePaths(rawConfig: unknown): string[] {
+  return ['', ...getProfileSlugs(readRawDocument(rawConfig))];
+}
+
+/**
+ * Profile keys that get no page because they can't be used as a path
+ */
+export function getSkippedProfiles(rawConfig: unknown): string[] {
+  return getInvalidProfileSlugs(readRawDocument(rawConfig));
+}
+
+/**
+ * Renders the not-found page, served by the host for paths without a page
+ */
+export function renderNotFoundPage(template: string, rawConfig: unknown): string {
+  return renderPage(template, rawConfig, NOT_FOUND_PATH);
+}
+
+/**
+ * Renders the app for the given raw configuration document and route path into the built
+ * index.html. The page records its route so the client only hydrates it for the same route.
+ */
+export function renderPage(template: string, rawConfig: unknown, path = ''): string {
+  const configDocument = readRawDocument(rawConfig);
+  const route = matchRoute(path, configDocument);
+  const config = resolveRouteConfig(configDocument, route);
+
+  const appHtml = renderToString(
+    <React.StrictMode>
+      <App initialDocument={configDocument} path={path} />
+    </React.StrictMode>
+  );
+
+  if (!ROOT_PATTERN.test(template) || !INLINE_CONFIG_PATTERN.test(template)) {
+    throw new Error('index.html is missing the #root container or the inline configuration element');
+  }
+
+  let html = template
+    .replace(ROOT_PATTERN, () =>
+      `<div id="root" data-prerendered="true" data-route="${encodeHtmlAttribute(getRouteKey(route))}">${appHtml}</div>`
+    )
+    // The client hydrates from the same raw document the page was rendered with
+    .replace(INLINE_CONFIG_PATTERN, () =>
+      `<script type="application/json" id="${INLINE_CONFIG_ELEMENT_ID}">${encodeJsonForScript(rawConfig ?? {})}</script>`
+    );
+
+  html = renderHeadMetadata(html, config, route);
+  html = renderFontFaces(html, config);
+
+  return html;
+}
+
+/**
+ * Renders the web app manifest for the given raw configuration document
+ */
+export function renderManifest(rawConfig: unknown): string {
+  return JSON.stringify(buildWebAppManifest(resolveRawConfig(rawConfig)), null, 2);
+}
+
+/**
+ * App icons the build renders for the manifest: the images to render them from, in order of
+ * preference, and the URL of each size
+ */
+export function getAppIcons(rawConfig: unknown): { sources: string[]; icons: { url: string; size: number }[] } {
+  return {
+    sources: getPWAIconSources(resolveRawConfig(rawConfig)),
+    icons: PWA_ICON_SIZES.map(size => ({ url: getPWAIconUrl(size), size })),
+  };
+}
+
+/**
+ * Fills in the cache version and the precache list of the built service worker.
+ * `assetUrls` are the files Vite emitted, so the page's scripts and styles work offline too.
+ */
+export function renderServiceWorker(template: string, rawConfig: unknown, assetUrls: string[], version: string): string {
+  if (!CACHE_VERSION_PATTERN.test(template) || !PRECACHE_URLS_PATTERN.test(template)) {
+    throw new Error('sw.js is missing the CACHE_VERSION or PRECACHE_URLS declaration');
+  }
+
+  const pageUrls = getPagePaths(rawConfig).map(path => `/${path}${path ? '/' : ''}`);
+  const urls = Array.from(new Set([...pageUrls, ...getPrecacheUrls(resolveRawConfig(rawConfig)), ...assetUrls]));
+
+  return template
+    .replace(CACHE_VERSION_PATTERN, () => `const CACHE_VERSION = ${JSON.stringify(version)};`)
+    .replace(PRECACHE_URLS_PATTERN, () => `const PRECACHE_URLS = ${JSON.stringify(urls)};`);
+}
+
+/**
+ * Writes SEO, Open Graph and Twitter metadata for the route's page into the document head.
+ * Config text is plain, so each value is encoded for where it goes: element text, attribute or JSON-LD.
+ */
+function renderHeadMetadata(html: string, config: LinkTreeConfig, route: AppRoute): string {
+  const { seo, profile } = config;
+
+  html = html.replace(/<title>[\s\S]*?<\/title>/, () => `<title>${encodeHtmlText(seo.title)}</title>`);
+  html = setMetaContent(html, 'name', 'description', seo.description);
+  html = setMetaContent(html, 'name', 'keywords', seo.keywords);
+  html = setMetaContent(html, 'property', 'og:title', seo.title);
+  html = setMetaContent(html, 'property', 'og:description', seo.description);
+  html = setMetaContent(html, 'property', 'og:image', profile.avatar);
+  // Open Graph needs an absolute URL, so without a site URL the template's value stays
+  const pageUrl = getCanonicalUrl(route, seo.siteUrl);
+  if (pageUrl) {
+    html = setMetaContent(html, 'property', 'og:url', pageUrl);
+  }
+  html = setMetaContent(html, 'name', 'twitter:title', seo.title);
+  html = setMetaContent(html, 'name', 'twitter:description', seo.description);
+  html = setMetaContent(html, 'name', 'twitter:image', profile.avatar);
+  html = setMetaContent(html, 'name', 'apple-mobile-web-app-title', seo.title);
+
+  html = setMetaContent(html, 'name', 'theme-color', buildWebAppManifest(config).theme_color);
+
+  const favicon = seo.favicon;
+  if (favicon) {
+    html = html.replace(
+      /(<link rel="icon" type="image\/svg\+xml" href=")[^"]*(")/,
+      (_, start, end) => `${start}${encodeHtmlAttribute(favicon)}${end}`
+    );
+  }
+
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: profile.name,
+    description: getRichTextPlainText(profile.bio),
+    image: profile.avatar,
+    ...(profile.location && { address: profile.location })
+  };
+
+  return html.replace(
+    /<script type="application\/ld\+json">[\s\S]*?<\/script>/,
+    () => `<script type="application/ld+json">${encodeJsonForScript(structuredData)}</script>`
+  );
+}
+
+/**
+ * Declares and preloads the theme font, so the first paint already requests the right file
+ */
+function renderFontFaces(html: string, config: LinkTreeConfig): string {
+  const preloads = getFontPreloads(config.theme).map(({ url, type }) =>
+    `<link rel="preload" href="${encodeHtmlAttribute(url)}" as="font" type="${type}" crossorigin />`
+  );
+
+  // Font names and URLs are restricted to characters that can't close the <style> element
+  return html.replace(FONT_FACES_PATTERN, () =>
+    `${preloads.join('\n    ')}\n    <style id="${FONT_FACES_ELEMENT_ID}">\n${getFontFaceCss(config.theme)}\n    </style>`
+  );
+}
+
+/**
+ * Sets a meta tag's content attribute; the value is attribute-encoded here
+ */
+function setMetaContent(html: string, attribute: 'name' | 'property', key: string, content: string): string {
+  const pattern = new RegExp(`(<meta ${attribute}="${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}" content=")[^"]*(")`);
+  return html.replace(pattern, (_, start, end) => `${start}${encodeHtmlAttribute(content)}${end}`);
+}
@@ -5,6 +5,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { normalizeUserConfig } from './utils/config-loader';
+import { readInlineConfig, isPreviewRequested } from './utils/config-sources';
+import { isEditorRequested } from './utils/config-editor';
+import { getRouteKey, matchRoute } from './utils/profiles';
+import { getCurrentRoutePath } from './utils/router';
+import type { ConfigDocument } from './types/config';
 import './styles/globals.css';
 
 // Security: Validate environment before proceeding
@@ -35,14 +41,47 @@ if (!rootElement) {
   throw new Error('Root element not found. Please ensure there is an element with id="root" in your HTML.');
 }
 
-const root = ReactDOM.createRoot(rootElement);
+const editMode = isEditorRequested();
 
-// Render the application
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+/**
+ * Reads the configuration document the page was pre-rendered with, if any.
+ * A preview configuration or the editor replaces the pre-rendered content instead of hydrating it,
+ * and so does a page served for another route, e.g. the home page from a host's fallback rewrite.
+ */
+function getPrerenderedDocument(element: HTMLElement): ConfigDocument | null {
+  if (element.dataset.prerendered !== 'true' || isPreviewRequested() || editMode) {
+    return null;
+  }
+
+  try {
+    const rawConfig = readInlineConfig();
+    const configDocument = rawConfig && typeof rawConfig === 'object' ? normalizeUserConfig(rawConfig) : {};
+    const route = matchRoute(getCurrentRoutePath(), configDocument);
+    return element.dataset.route === getRouteKey(route) ? configDocument : null;
+  } catch {
+    return null;
+  }
+}
+
+const prerenderedDocument = getPrerenderedDocument(rootElement);
+
+// Hydrate pre-rendered markup, or render from scratch
+const root = prerenderedDocument
+  ? ReactDOM.hydrateRoot(
+      rootElement,
+      <React.StrictMode>
+        <App initialDocument={prerenderedDocument} />
+      </React.StrictMode>
+    )
+  : ReactDOM.createRoot(rootElement);
+
+if (!prerenderedDocument) {
+  root.render(
+    <React.StrictMode>
+      <App editMode={editMode} />
+    </React.StrictMode>
+  );
+}
 
 // Hot module replacement (HMR) for development
 if (import.meta.hot) {
@@ -50,7 +89,7 @@ if (import.meta.hot) {
     if (newApp) {
       root.render(
         <React.StrictMode>
-          <newApp.default />
+          <newApp.default editMode={editMode} />
         </React.StrictMode>
       );
     }
@@ -3,52 +3,177 @@
  */
 
 import React from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { BRAND_ICONS } from '../utils/brand-icons';
+import type { EMBED_PROVIDERS } from '../utils/embeds';
+import type { FONT_FAMILIES } from '../utils/fonts';
+import type { SOCIAL_PLATFORMS } from '../utils/social-platforms';
+import type { THEME_PRESETS } from '../utils/theme-presets';
 
 export interface ProfileConfig {
   name: string;
   bio: string;
   avatar: string;
   location?: string;
+  /** Details for the "Save contact" card; they aren't shown on the page */
+  contact?: ProfileContactConfig;
+}
+
+export interface ProfileContactConfig {
+  emails?: string[];
+  /** International numbers (+44 20 7946 0958) are saved as tel: URIs, others as text */
+  phones?: string[];
+  organization?: string;
+  title?: string;
+  website?: string;
 }
 
 export interface LinkConfig {
+  type?: 'link';
   title: string;
   url: string;
   description?: string;
-  icon: string;
+  /** Brand or Lucide icon name, emoji or image URL; without one the icon follows the URL */
+  icon?: string;
   enabled: boolean;
   newTab: boolean;
   featured: boolean;
+  /** ISO 8601 timestamp with timezone; the link is hidden before this time */
+  startsAt?: string;
+  /** ISO 8601 timestamp with timezone; the link is hidden from this time on */
+  endsAt?: string;
 }
 
-export interface SocialMediaConfig {
-  twitter?: string;
-  instagram?: string;
-  github?: string;
-  linkedin?: string;
-  youtube?: string;
-  tiktok?: string;
-  discord?: string;
-  twitch?: string;
+export type LinkScheduleStatus = 'upcoming' | 'active' | 'expired';
+
+export interface HeadingConfig {
+  type: 'heading';
+  text: string;
+  enabled: boolean;
 }
 
+export interface DividerConfig {
+  type: 'divider';
+  enabled: boolean;
+}
+
+// Links that expand into an inline player or map when clicked
+export type EmbedKind = 'video' | 'music' | 'map';
+
+export interface MediaEmbedConfig {
+  type: 'video' | 'music';
+  title: string;
+  /** Page of the video, track, album or playlist on a supported provider */
+  url: string;
+  description?: string;
+  enabled: boolean;
+}
+
+export interface MapEmbedConfig {
+  type: 'map';
+  title: string;
+  /** Address, place name or "latitude,longitude" */
+  location: string;
+  description?: string;
+  enabled: boolean;
+}
+
+export type EmbedBlockConfig = MediaEmbedConfig | MapEmbedConfig;
+
+// Entries of the links list; entries without a type are plain links
+export type LinkBlockConfig = LinkConfig | HeadingConfig | DividerConfig | EmbedBlockConfig;
+export type LinkBlockType = NonNullable<LinkBlockConfig['type']>;
+
+// Usernames keyed by platform; the platforms come from the social platform registry
+export type SocialMediaConfig = Partial<Record<SocialPlatform, string>>;
+
 export type ColorScheme = 'light' | 'dark' | 'auto';
 export type BackgroundStyle = 'solid' | 'gradient' | 'image';
-export type FontFamily = 'inter' | 'poppins' | 'roboto' | 'montserrat' | 'playfair';
+// Self-hosted font families come from the font registry
+export type FontFamily = keyof typeof FONT_FAMILIES;
 export type ButtonStyle = 'rounded' | 'square' | 'pill';
 export type ButtonAnimation = 'none' | 'scale' | 'glow' | 'lift';
 
 export interface ThemeConfig {
+  /** Preset supplying the base theme values; fields set alongside it take precedence */
+  preset?: ThemePresetName;
   colorScheme: ColorScheme;
   primaryColor: string;
+  /** Brand colors beyond the primary color; like primaryColor they accept hex, rgb() or hsl() */
+  secondaryColor?: string;
+  accentColor?: string;
+  textColor?: string;
+  surfaceColor?: string;
   backgroundStyle: BackgroundStyle;
   backgroundImage?: string;
+  /** Custom gradient for `backgroundStyle: 'gradient'` */
+  gradient?: GradientConfig;
+  /** WCAG level the theme colors are checked against; defaults to AA */
+  contrastLevel?: ContrastLevel;
+  /** Replace text colors that miss the contrast level with a legible one at runtime */
+  autoContrast?: boolean;
   fontFamily: FontFamily;
+  /** Font file loaded instead of fontFamily */
+  customFont?: CustomFontConfig;
   buttonStyle: ButtonStyle;
   buttonAnimation: ButtonAnimation;
   showBorder: boolean;
 }
 
+export interface GradientConfig {
+  /** Two or more colors, spread evenly from start to end */
+  stops: string[];
+  /** Direction in degrees, 0 pointing up; defaults to 135 */
+  angle?: number;
+}
+
+export type FontFallback = 'sans-serif' | 'serif' | 'monospace';
+
+export interface CustomFontConfig {
+  /** CSS family name the file is registered under */
+  name: string;
+  /** woff2, woff, ttf or otf file; https:// or a path on this site */
+  url: string;
+  /** Generic family used until the file has loaded; defaults to sans-serif */
+  fallback?: FontFallback;
+}
+
+// Font registry entry: latin subset files for the weights the page uses
+export type FontWeight = 400 | 500 | 600 | 700;
+
+export interface FontDefinition {
+  /** CSS family name */
+  name: string;
+  /** Fallback stack while the font loads */
+  fallback: string;
+  files: Record<FontWeight, string>;
+}
+
+// Parsed color channels, 0-255
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Brand colors exposed as CSS variables, each with a generated tint/shade scale
+export type PaletteColorName = 'primary' | 'secondary' | 'accent' | 'text' | 'surface';
+export type ColorScaleStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+// WCAG contrast checks for text the theme renders
+export type ContrastLevel = 'AA' | 'AAA';
+export type ContrastElement = 'button' | 'featured' | 'page';
+
+export interface ContrastPair {
+  element: ContrastElement;
+  scheme: 'light' | 'dark';
+  /** Theme field responsible for the colors, used for validation messages */
+  field: string;
+  foreground: RgbColor;
+  /** Every background the text can sit on, e.g. each gradient stop */
+  backgrounds: RgbColor[];
+}
+
 export type MaxWidth = 'sm' | 'md' | 'lg' | 'xl' | 'full';
 export type Alignment = 'left' | 'center' | 'right';
 export type Spacing = 'compact' | 'normal' | 'relaxed';
@@ -68,39 +193,79 @@ export interface SEOConfig {
   description: string;
   keywords: string;
   favicon?: string;
+  /** Address the site is served from, e.g. "https://links.example.com"; page URLs for Open Graph build on it */
+  siteUrl?: string;
 }
 
+export type AnalyticsTransportType = 'beacon' | 'localStorage' | 'console';
+
 export interface AnalyticsConfig {
   googleAnalyticsId?: string;
   facebookPixelId?: string;
   trackClicks: boolean;
   trackSocialClicks: boolean;
+  endpoint?: string;
+  transport?: AnalyticsTransportType;
+  batchSize?: number;
+  flushInterval?: number;
+  requireConsent?: boolean;
+  privacyPolicyUrl?: string;
 }
 
 export interface AdvancedConfig {
   enablePWA: boolean;
+  /** Manifest overrides, used when enablePWA is on */
+  pwa?: PWAConfig;
   enableDarkMode: boolean;
   enableAnimations: boolean;
   preloadImages: boolean;
+  /** Share buttons on the profile and on each link */
+  enableSharing: boolean;
 }
 
+// Accessibility features; visitors can override highContrast and reducedMotion from the page
+export interface AccessibilityConfig {
+  /** Use the high-contrast theme variant even when the system does not ask for more contrast */
+  highContrast: boolean;
+  /** Turn off animations even when the system does not ask for reduced motion */
+  reducedMotion: boolean;
+  /** Announce page changes and link behavior to screen readers */
+  screenReaderOptimized: boolean;
+  /** Move between links with the arrow keys, Home and End */
+  keyboardNavigation: boolean;
+  /** Show the accessibility settings button to visitors */
+  showControls: boolean;
+}
+
+// Choices a visitor made in the accessibility panel; unset values follow the config and system settings
+export type AccessibilityPreferenceKey = 'highContrast' | 'reducedMotion';
+export type AccessibilityPreferences = Partial<Record<AccessibilityPreferenceKey, boolean>>;
+
 export interface LinkTreeConfig {
   profile: ProfileConfig;
-  links: LinkConfig[];
+  links: LinkBlockConfig[];
   socialMedia: SocialMediaConfig;
   theme: ThemeConfig;
   layout: LayoutConfig;
   seo: SEOConfig;
   analytics: AnalyticsConfig;
+  accessibility: AccessibilityConfig;
   advanced: AdvancedConfig;
 }
 
 // Utility types for components
 export interface ThemeContextValue {
   config: LinkTreeConfig;
-  updateConfig: (updates: Partial<LinkTreeConfig>) => void;
+  updateConfig: (updates: DeepPartial<LinkTreeConfig>) => void;
   isDarkMode: boolean;
   toggleDarkMode: () => void;
+  fontLoading: FontLoadingState;
+  /** Page shown for the current path */
+  route: AppRoute;
+  /** Shows another page of this site without reloading; false when the href isn't one */
+  navigate: (href: string) => boolean;
+  /** Profiles in the loaded configuration document, as written */
+  profiles: ProfilesConfig;
 }
 
 export interface LinkClickEvent {
@@ -119,6 +284,10 @@ export interface SocialClickEvent {
 // Component prop types
 export interface ProfileProps {
   profile: ProfileConfig;
+  /** Accounts that @mentions in the bio link to */
+  socialMedia?: SocialMediaConfig;
+  /** Show a button to share the page */
+  showShare?: boolean;
   className?: string;
 }
 
@@ -126,12 +295,18 @@ export interface LinkButtonProps {
   link: LinkConfig;
   theme: ThemeConfig;
   onLinkClick?: (event: LinkClickEvent) => void;
+  /** Show a button to share the link next to it */
+  showShare?: boolean;
   className?: string;
+  /** Set by LinksList for roving keyboard focus */
+  tabIndex?: number;
 }
 
 export interface SocialMediaProps {
   socialMedia: SocialMediaConfig;
   position: SocialMediaPosition;
+  /** Accessible name of the landmark */
+  label?: string;
   onSocialClick?: (event: SocialClickEvent) => void;
   className?: string;
 }
@@ -160,6 +335,69 @@ export interface AnalyticsEvent {
   timestamp: number;
 }
 
+export interface AnalyticsTransport {
+  name: string;
+  /** Delivers a batch, resolving to false when it should be retried */
+  send: (events: AnalyticsEvent[]) => Promise<boolean>;
+  /** Best-effort synchronous delivery while the page is being unloaded */
+  sendOnUnload?: (events: AnalyticsEvent[]) => boolean;
+}
+
+// Consent types
+export type ConsentCategory = 'analytics' | 'marketing';
+
+export interface ConsentPreferences {
+  analytics: boolean;
+  marketing: boolean;
+  updatedAt: number;
+  version: number;
+}
+
+export type ConsentModeValue = 'granted' | 'denied';
+
+// Google Consent Mode v2 signals
+export interface ConsentModeState {
+  analytics_storage: ConsentModeValue;
+  ad_storage: ConsentModeValue;
+  ad_user_data: ConsentModeValue;
+  ad_personalization: ConsentModeValue;
+}
+
+// Configuration source types
+export interface ConfigSource {
+  name: string;
+  /** Resolves to the raw configuration, or null when this source has nothing to offer */
+  load: () => Promise<unknown | null>;
+}
+
+export type ConfigSourceStatus = 'loaded' | 'skipped' | 'failed';
+
+export interface ConfigSourceDiagnostic {
+  source: string;
+  status: ConfigSourceStatus;
+  message?: string;
+}
+
+export interface ConfigLoadResult {
+  config: ConfigDocument;
+  source: string | null;
+  diagnostics: ConfigSourceDiagnostic[];
+}
+
+// Multiple profiles
+/** Per-profile overrides of the shared configuration, keyed by the profile's path, e.g. "alice" */
+export type ProfilesConfig = Record<string, DeepPartial<LinkTreeConfig>>;
+
+/** Configuration file as written: the shared (home page) configuration plus optional profiles */
+export type ConfigDocument = DeepPartial<LinkTreeConfig> & {
+  profiles?: ProfilesConfig;
+};
+
+export type AppRoute =
+  | { type: 'home' }
+  | { type: 'profile'; slug: string }
+  | { type: 'not-found' };
+
 // Configuration validation types
 export interface ValidationResult {
   isValid: boolean;
@@ -177,14 +415,9 @@ export interface ThemeCSSVariables {
   '--spacing': string;
 }
 
-// Font loading state
-export interface FontLoadingState {
-  inter: boolean;
-  poppins: boolean;
-  roboto: boolean;
-  montserrat: boolean;
-  playfair: boolean;
-}
+// Font loading state, keyed by CSS family name
+export type FontLoadStatus = 'loading' | 'loaded' | 'error';
+export type FontLoadingState = Record<string, FontLoadStatus>;
 
 // SEO metadata interface
 export interface SEOMetadata {
@@ -205,13 +438,6 @@ export interface PerformanceMetrics {
   interactionToNextPaint: number;
 }
 
-// Accessibility features
-export interface AccessibilityConfig {
-  highContrast: boolean;
-  reducedMotion: boolean;
-  screenReaderOptimized: boolean;
-  keyboardNavigation: boolean;
-}
 
 // Export utility type for deep partial updates
 export type DeepPartial<T> = {
@@ -221,101 +447,98 @@ export type DeepPartial<T> = {
 // Configuration update type
 export type ConfigUpdate = DeepPartial<LinkTreeConfig>;
 
-// Icon names type (for better type safety with Lucide icons)
-export type IconName = 
-  | 'globe' 
-  | 'mail' 
-  | 'book-open' 
-  | 'briefcase' 
-  | 'link'
-  | 'phone'
-  | 'map-pin'
-  | 'calendar'
-  | 'camera'
-  | 'music'
-  | 'video'
-  | 'shopping-cart'
-  | 'heart'
-  | 'star'
-  | 'user'
-  | 'users'
-  | 'message-circle'
-  | 'send'
-  | 'download'
-  | 'upload'
-  | 'play'
-  | 'pause'
-  | 'stop'
-  | 'home'
-  | 'settings'
-  | 'search'
-  | 'filter'
-  | 'edit'
-  | 'trash'
-  | 'plus'
-  | 'minus'
-  | 'check'
-  | 'x'
-  | 'arrow-right'
-  | 'arrow-left'
-  | 'arrow-up'
-  | 'arrow-down'
-  | 'external-link'
-  | 'copy'
-  | 'share'
-  | 'bookmark'
-  | 'flag'
-  | 'gift'
-  | 'coffee'
-  | 'pizza'
-  | 'gamepad'
-  | 'headphones'
-  | 'laptop'
-  | 'smartphone'
-  | 'tablet'
-  | 'tv'
-  | 'wifi'
-  | 'bluetooth'
-  | 'battery'
-  | 'zap'
-  | 'sun'
-  | 'moon'
-  | 'cloud'
-  | 'umbrella'
-  | 'tree'
-  | 'flower'
-  | 'car'
-  | 'plane'
-  | 'ship'
-  | 'train'
-  | 'bike'
-  | 'walking';
+// Icon names: a brand icon from the registry or a Lucide icon in kebab-case, e.g. "spotify" or "book-open"
+export type BrandIconName = keyof typeof BRAND_ICONS;
+export type IconName = BrandIconName | Lowercase<string>;
+
+export interface BrandIconDefinition {
+  /** Display name */
+  name: string;
+  /** Brand color as hex */
+  color: string;
+  /** SVG path on a 24x24 view box */
+  path: string;
+  /** Hosts (and their subdomains) whose links get this icon when none is configured */
+  hosts: string[];
+}
+
+// Media providers come from the embed provider registry
+export type EmbedProvider = keyof typeof EMBED_PROVIDERS;
+
+export interface EmbedProviderDefinition {
+  /** Display name */
+  name: string;
+  kind: MediaEmbedConfig['type'];
+  /** Hosts whose URLs the provider embeds; subdomains match too */
+  hosts: string[];
+  /** Player for a URL on one of the hosts, or null when the URL isn't an embeddable page */
+  getFrame: (url: URL) => Omit<EmbedFrame, 'provider'> | null;
+}
+
+export interface EmbedFrame {
+  /** Display name of the provider, e.g. "YouTube" */
+  provider: string;
+  src: string;
+  /** Fixed player height in pixels; without one the frame is 16:9 */
+  height?: number;
+}
+
+// Inline formatting parsed from bios and descriptions (see utils/rich-text.ts)
+export type RichTextNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: RichTextNode[] }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; handle: string }
+  | { type: 'break' };
+
+// Sharing: a page or link offered through the share sheet
+export interface ShareTarget {
+  title: string;
+  /** Absolute http(s) URL */
+  url: string;
+}
+
+export type ShareResult = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+// QR code drawn as one SVG path over a square of modules, quiet zone included
+export interface QrCodeImage {
+  size: number;
+  path: string;
+}
+
+// A link icon, resolved from the configured value or the link URL
+export type LinkIconSource =
+  | { type: 'image'; src: string }
+  | { type: 'emoji'; emoji: string }
+  | { type: 'brand'; name: BrandIconName }
+  | { type: 'lucide'; name: string }
+  | { type: 'default'; kind: 'mail' | 'phone' | 'link' };
 
 // Social media platform types
-export type SocialPlatform = 
-  | 'twitter'
-  | 'instagram' 
-  | 'github'
-  | 'linkedin'
-  | 'youtube'
-  | 'tiktok'
-  | 'discord'
-  | 'twitch'
-  | 'facebook'
-  | 'snapchat'
-  | 'pinterest'
-  | 'reddit'
-  | 'telegram'
-  | 'whatsapp'
-  | 'signal'
-  | 'mastodon'
-  | 'threads';
-
-// Theme preset interface
+export type SocialPlatform = keyof typeof SOCIAL_PLATFORMS;
+
+export interface SocialPlatformDefinition {
+  /** Display name */
+  name: string;
+  /** Lucide icon, imported by name so unused icons are tree-shaken */
+  icon: LucideIcon;
+  /** Accepted usernames, handles or links */
+  pattern: RegExp;
+  /** Example value for documentation and form placeholders */
+  example: string;
+  /** Profile URL for a username matching the pattern */
+  buildUrl: (username: string) => string;
+}
+
+// Theme preset interface; presets come from the theme preset registry
+export type ThemePresetName = keyof typeof THEME_PRESETS;
+
 export interface ThemePreset {
   name: string;
   description: string;
-  config: Partial<ThemeConfig>;
+  /** Complete theme values applied underneath the user's own theme fields */
+  config: Omit<ThemeConfig, 'preset' | 'backgroundImage'>;
+  /** CSS background used for the preset swatch */
   preview: string;
 }
 
@@ -327,16 +550,96 @@ export interface AnimationPreferences {
   animationSpeed: 'slow' | 'normal' | 'fast';
 }
 
-// PWA configuration
+// Installable app settings; unset fields are derived from the profile, SEO and theme
+export type PWADisplayMode = 'fullscreen' | 'standalone' | 'minimal-ui' | 'browser';
+export type PWAOrientation = 'any' | 'portrait' | 'landscape';
+
 export interface PWAConfig {
-  enabled: boolean;
+  name?: string;
+  shortName?: string;
+  description?: string;
+  themeColor?: string;
+  backgroundColor?: string;
+  display?: PWADisplayMode;
+  orientation?: PWAOrientation;
+}
+
+// Web app manifest generated from the configuration at build time
+export interface WebAppManifestIcon {
+  src: string;
+  sizes: string;
+  type?: string;
+  purpose?: string;
+}
+
+export interface WebAppManifest {
   name: string;
-  shortName: string;
+  short_name: string;
   description: string;
-  themeColor: string;
-  backgroundColor: string;
-  display: 'fullscreen' | 'standalone' | 'minimal-ui' | 'browser';
-  orientation: 'any' | 'portrait' | 'landscape';
+  start_url: string;
+  scope: string;
+  display: PWADisplayMode;
+  orientation: PWAOrientation;
+  theme_color: string;
+  background_color: string;
+  lang: string;
+  icons: WebAppManifestIcon[];
+}
+
+// Platform site configuration (site.config.json written during fork)
+export interface PlatformSettings {
+  subdomain: string;
+  title?: string;
+  description?: string;
+}
+
+export interface PlatformProfileBlock {
+  name?: string;
+  bio?: string;
+  avatar?: string;
+}
+
+export interface PlatformLinkBlock {
+  type: 'link';
+  title: string;
+  url: string;
+  description?: string;
+}
+
+export interface PlatformHeadingBlock {
+  type: 'heading';
+  text: string;
+}
+
+export interface PlatformDividerBlock {
+  type: 'divider';
+}
+
+export type PlatformContentBlock = PlatformLinkBlock | PlatformHeadingBlock | PlatformDividerBlock;
+
+export interface PlatformContent {
+  profile?: PlatformProfileBlock;
+  links: PlatformContentBlock[];
+  footer?: Record<string, string>;
+}
+
+export interface PlatformSiteConfig {
+  templateId: string;
+  settings: PlatformSettings;
+  content: PlatformContent;
+}
+
+// Field constraint as declared in template.config.json
+export interface PlatformFieldRule {
+  type?: 'string' | 'url';
+  required?: boolean;
+  maxLength?: number;
+  pattern?: string;
+  default?: string;
+}
+
+export interface PlatformConversionResult extends ValidationResult {
+  config: DeepPartial<LinkTreeConfig>;
 }
 
 // Export all types as a module
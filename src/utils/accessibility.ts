@@ -0,0 +1,111 @@
+/**
+ * Accessibility settings for LinkTree Modern
+ * Combines the configured accessibility options with the visitor's system settings
+ * and the choices they made in the accessibility panel.
+ */
+
+import type {
+  AccessibilityConfig,
+  AccessibilityPreferenceKey,
+  AccessibilityPreferences
+} from '@/types/config';
+
+export const ACCESSIBILITY_STORAGE_KEY = 'linktree-accessibility';
+
+// System settings that switch a preference on when the visitor has not chosen otherwise
+export const ACCESSIBILITY_MEDIA_QUERIES: Record<AccessibilityPreferenceKey, string> = {
+  highContrast: '(prefers-contrast: more)',
+  reducedMotion: '(prefers-reduced-motion: reduce)',
+};
+
+export const ACCESSIBILITY_PREFERENCE_KEYS = Object.keys(ACCESSIBILITY_MEDIA_QUERIES) as AccessibilityPreferenceKey[];
+
+/**
+ * Reads the visitor's panel choices from localStorage
+ */
+export function loadAccessibilityPreferences(): AccessibilityPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACCESSIBILITY_STORAGE_KEY) || 'null');
+    const preferences: AccessibilityPreferences = {};
+
+    if (stored && typeof stored === 'object') {
+      ACCESSIBILITY_PREFERENCE_KEYS.forEach(key => {
+        if (typeof stored[key] === 'boolean') {
+          preferences[key] = stored[key];
+        }
+      });
+    }
+
+    return preferences;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Persists the visitor's panel choices
+ */
+export function saveAccessibilityPreferences(preferences: AccessibilityPreferences): void {
+  try {
+    if (Object.keys(preferences).length === 0) {
+      localStorage.removeItem(ACCESSIBILITY_STORAGE_KEY);
+    } else {
+      localStorage.setItem(ACCESSIBILITY_STORAGE_KEY, JSON.stringify(preferences));
+    }
+  } catch {
+    // Storage may be unavailable (private mode, quota); the choice still applies to this visit
+  }
+}
+
+/**
+ * Current system settings, all off outside the browser
+ */
+export function getSystemAccessibilityPreferences(): Record<AccessibilityPreferenceKey, boolean> {
+  const matches = (query: string) =>
+    typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+
+  return {
+    highContrast: matches(ACCESSIBILITY_MEDIA_QUERIES.highContrast),
+    reducedMotion: matches(ACCESSIBILITY_MEDIA_QUERIES.reducedMotion),
+  };
+}
+
+/**
+ * Effective settings: a visitor's choice wins, otherwise the config or the system setting turns a preference on
+ */
+export function resolveAccessibilitySettings(
+  config: AccessibilityConfig,
+  system: Record<AccessibilityPreferenceKey, boolean>,
+  preferences: AccessibilityPreferences
+): AccessibilityConfig {
+  const settings = { ...config };
+  ACCESSIBILITY_PREFERENCE_KEYS.forEach(key => {
+    settings[key] = preferences[key] ?? (config[key] || system[key]);
+  });
+  return settings;
+}
+
+/**
+ * Index of the item to focus for a navigation key in a list of `count` items, or null for other keys.
+ * Arrow keys wrap around at either end.
+ */
+export function getRovingFocusIndex(key: string, current: number, count: number): number | null {
+  if (count === 0) {
+    return null;
+  }
+
+  switch (key) {
+    case 'ArrowDown':
+    case 'ArrowRight':
+      return (current + 1) % count;
+    case 'ArrowUp':
+    case 'ArrowLeft':
+      return (current - 1 + count) % count;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      return null;
+  }
+}
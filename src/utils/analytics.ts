@@ -0,0 +1,245 @@
+/**
+ * First-party click analytics for LinkTree Modern
+ * Events are batched in memory and delivered through a pluggable transport.
+ * No cookies or visitor identifiers are created.
+ */
+
+import { devLog } from './dev-log';
+import type {
+  AnalyticsConfig,
+  AnalyticsEvent,
+  AnalyticsTransport
+} from '@/types/config';
+
+export const ANALYTICS_STORAGE_KEY = 'linktree-analytics';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const MAX_QUEUE_SIZE = 100;
+
+/**
+ * Posts batches to a first-party endpoint, falling back to navigator.sendBeacon on unload.
+ * The body is sent as text/plain so cross-origin endpoints need no CORS preflight.
+ */
+export function createBeaconTransport(endpoint: string): AnalyticsTransport {
+  const serialize = (events: AnalyticsEvent[]) => JSON.stringify({ events });
+
+  return {
+    name: 'beacon',
+    send: async (events) => {
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          body: serialize(events),
+          headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+          credentials: 'omit',
+          keepalive: true
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+    sendOnUnload: (events) => {
+      if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+        return false;
+      }
+      return navigator.sendBeacon(endpoint, new Blob([serialize(events)], { type: 'text/plain;charset=UTF-8' }));
+    }
+  };
+}
+
+/**
+ * Keeps events in localStorage on the visitor's device, e.g. for local testing or later export
+ */
+export function createLocalStorageTransport(
+  key: string = ANALYTICS_STORAGE_KEY,
+  maxEvents: number = 500
+): AnalyticsTransport {
+  const store = (events: AnalyticsEvent[]) => {
+    try {
+      const stored: AnalyticsEvent[] = JSON.parse(localStorage.getItem(key) || '[]');
+      localStorage.setItem(key, JSON.stringify([...stored, ...events].slice(-maxEvents)));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    name: 'localStorage',
+    send: async (events) => store(events),
+    sendOnUnload: store
+  };
+}
+
+/**
+ * Logs batches to the console, for development; production builds discard them
+ */
+export function createConsoleTransport(): AnalyticsTransport {
+  const log = (events: AnalyticsEvent[]) => {
+    devLog('info', '[analytics]', events);
+    return true;
+  };
+
+  return {
+    name: 'console',
+    send: async (events) => log(events),
+    sendOnUnload: log
+  };
+}
+
+/**
+ * Batches events and hands them to a transport, retrying failed batches
+ */
+export class AnalyticsTracker {
+  private queue: AnalyticsEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+
+  constructor(
+    private transport: AnalyticsTransport,
+    private batchSize: number = DEFAULT_BATCH_SIZE,
+    private flushInterval: number = DEFAULT_FLUSH_INTERVAL
+  ) {}
+
+  track(type: AnalyticsEvent['type'], data: AnalyticsEvent['data'], timestamp: number = Date.now()): void {
+    this.queue.push({ type, data, timestamp });
+    this.trimQueue();
+
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    this.clearTimer();
+
+    if (this.flushing || this.queue.length === 0) {
+      return;
+    }
+
+    this.flushing = true;
+    const batch = this.queue.splice(0, this.batchSize);
+
+    try {
+      const delivered = await this.transport.send(batch).catch(() => false);
+
+      if (!delivered) {
+        // Put the batch back and try again on the next interval
+        this.queue.unshift(...batch);
+        this.trimQueue();
+        this.scheduleFlush();
+        return;
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.queue.length > 0) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Delivers everything still queued while the page is going away
+   */
+  flushOnUnload(): void {
+    this.clearTimer();
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const events = this.queue.splice(0);
+    const delivered = this.transport.sendOnUnload?.(events) ?? false;
+
+    if (!delivered) {
+      void this.transport.send(events);
+    }
+  }
+
+  /**
+   * Flushes on page hide, returning a function that detaches the listeners
+   */
+  attach(): () => void {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushOnUnload();
+      }
+    };
+    const handlePageHide = () => this.flushOnUnload();
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      this.flushOnUnload();
+    };
+  }
+
+  private scheduleFlush(): void {
+    if (this.timer === null) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, this.flushInterval);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private trimQueue(): void {
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE);
+    }
+  }
+}
+
+/**
+ * Creates the transport selected by the analytics configuration, or null when none applies
+ */
+export function createAnalyticsTransport(analytics: AnalyticsConfig): AnalyticsTransport | null {
+  const transport = analytics.transport || (analytics.endpoint ? 'beacon' : undefined);
+
+  switch (transport) {
+    case 'beacon':
+      return analytics.endpoint ? createBeaconTransport(analytics.endpoint) : null;
+    case 'localStorage':
+      return createLocalStorageTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Creates a tracker for the analytics configuration.
+ * Returns null when no transport is configured or the visitor has enabled Do Not Track.
+ */
+export function createAnalyticsTracker(analytics: AnalyticsConfig): AnalyticsTracker | null {
+  if (!analytics.trackClicks && !analytics.trackSocialClicks) {
+    return null;
+  }
+
+  if (typeof navigator !== 'undefined' && navigator.doNotTrack === '1') {
+    return null;
+  }
+
+  const transport = createAnalyticsTransport(analytics);
+  if (!transport) {
+    return null;
+  }
+
+  return new AnalyticsTracker(transport, analytics.batchSize, analytics.flushInterval);
+}
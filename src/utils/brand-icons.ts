@@ -0,0 +1,151 @@
+/**
+ * Brand icon registry for LinkTree Modern
+ * Icons come from simple-icons; each entry also lists the hosts whose links get the icon
+ * automatically. Adding a brand only needs a new entry here.
+ */
+
+import {
+  siAppstore,
+  siApplemusic,
+  siBandcamp,
+  siBehance,
+  siBluesky,
+  siBuymeacoffee,
+  siCalendly,
+  siCashapp,
+  siDiscord,
+  siDribbble,
+  siEtsy,
+  siFacebook,
+  siGithub,
+  siGoogleplay,
+  siGumroad,
+  siInstagram,
+  siKofi,
+  siMastodon,
+  siMedium,
+  siPatreon,
+  siPaypal,
+  siPinterest,
+  siReddit,
+  siSnapchat,
+  siSoundcloud,
+  siSpotify,
+  siSubstack,
+  siTelegram,
+  siThreads,
+  siTiktok,
+  siTwitch,
+  siVenmo,
+  siWhatsapp,
+  siX,
+  siYoutube
+} from 'simple-icons';
+import type { SimpleIcon } from 'simple-icons';
+import type { BrandIconDefinition, BrandIconName, RgbColor } from '@/types/config';
+import { getContrastRatio, parseColor } from './color';
+
+// Icons are graphics, which WCAG asks to reach 3:1 against their background
+const ICON_CONTRAST_RATIO = 3;
+
+// Default link button backgrounds in light and dark mode
+const BUTTON_SURFACES: Record<'light' | 'dark', RgbColor> = {
+  light: { r: 255, g: 255, b: 255 },
+  dark: { r: 31, g: 41, b: 55 },
+};
+
+const brand = (icon: SimpleIcon, hosts: string[]): BrandIconDefinition => ({
+  name: icon.title,
+  color: `#${icon.hex}`,
+  path: icon.path,
+  hosts,
+});
+
+export const BRAND_ICONS = {
+  'spotify': brand(siSpotify, ['spotify.com', 'spotify.link']),
+  'apple-music': brand(siApplemusic, ['music.apple.com']),
+  'soundcloud': brand(siSoundcloud, ['soundcloud.com']),
+  'bandcamp': brand(siBandcamp, ['bandcamp.com']),
+  'youtube': brand(siYoutube, ['youtube.com', 'youtu.be']),
+  'twitch': brand(siTwitch, ['twitch.tv']),
+  'tiktok': brand(siTiktok, ['tiktok.com']),
+  'instagram': brand(siInstagram, ['instagram.com']),
+  'x': brand(siX, ['x.com', 'twitter.com']),
+  'threads': brand(siThreads, ['threads.net', 'threads.com']),
+  'bluesky': brand(siBluesky, ['bsky.app']),
+  'mastodon': brand(siMastodon, ['mastodon.social', 'joinmastodon.org']),
+  'facebook': brand(siFacebook, ['facebook.com', 'fb.me']),
+  'snapchat': brand(siSnapchat, ['snapchat.com']),
+  'pinterest': brand(siPinterest, ['pinterest.com', 'pin.it']),
+  'reddit': brand(siReddit, ['reddit.com']),
+  'discord': brand(siDiscord, ['discord.com', 'discord.gg']),
+  'telegram': brand(siTelegram, ['t.me', 'telegram.org']),
+  'whatsapp': brand(siWhatsapp, ['wa.me', 'whatsapp.com']),
+  'github': brand(siGithub, ['github.com']),
+  'behance': brand(siBehance, ['behance.net']),
+  'dribbble': brand(siDribbble, ['dribbble.com']),
+  'medium': brand(siMedium, ['medium.com']),
+  'substack': brand(siSubstack, ['substack.com']),
+  'patreon': brand(siPatreon, ['patreon.com']),
+  'ko-fi': brand(siKofi, ['ko-fi.com']),
+  'buy-me-a-coffee': brand(siBuymeacoffee, ['buymeacoffee.com']),
+  'gumroad': brand(siGumroad, ['gumroad.com']),
+  'etsy': brand(siEtsy, ['etsy.com']),
+  'paypal': brand(siPaypal, ['paypal.com', 'paypal.me']),
+  'venmo': brand(siVenmo, ['venmo.com']),
+  'cash-app': brand(siCashapp, ['cash.app']),
+  'calendly': brand(siCalendly, ['calendly.com']),
+  'app-store': brand(siAppstore, ['apps.apple.com']),
+  'google-play': brand(siGoogleplay, ['play.google.com']),
+} satisfies Record<string, BrandIconDefinition>;
+
+/**
+ * Brand icon identifiers in display order
+ */
+export const BRAND_ICON_NAMES = Object.keys(BRAND_ICONS) as BrandIconName[];
+
+/**
+ * Whether a value names a brand icon
+ */
+export function isBrandIcon(name: unknown): name is BrandIconName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(BRAND_ICONS, name);
+}
+
+/**
+ * Returns the registry entry for a brand icon, or undefined for unknown names
+ */
+export function getBrandIcon(name: unknown): BrandIconDefinition | undefined {
+  return isBrandIcon(name) ? BRAND_ICONS[name] : undefined;
+}
+
+/**
+ * Brand whose hosts match the URL's host or one of its parent domains
+ */
+export function getBrandIconForUrl(url: string): BrandIconName | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+
+  return BRAND_ICON_NAMES.find(name =>
+    BRAND_ICONS[name].hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  );
+}
+
+/**
+ * Brand color to draw the icon with in each color scheme, or null where it would be hard to see
+ * on the button and the icon should use the text color instead
+ */
+export function getBrandIconColors(name: BrandIconName): Record<'light' | 'dark', string | null> {
+  const { color } = BRAND_ICONS[name];
+  const parsed = parseColor(color);
+  const readableOn = (surface: RgbColor) =>
+    parsed !== null && getContrastRatio(parsed, surface) >= ICON_CONTRAST_RATIO ? color : null;
+
+  return {
+    light: readableOn(BUTTON_SURFACES.light),
+    dark: readableOn(BUTTON_SURFACES.dark),
+  };
+}
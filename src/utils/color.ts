@@ -0,0 +1,156 @@
+/**
+ * Color utilities for LinkTree Modern
+ * Parsing of hex, rgb() and hsl() colors, mixing, and WCAG contrast math.
+ */
+
+import type { ContrastLevel, RgbColor } from '@/types/config';
+
+// Minimum contrast ratio for normal-size text at each WCAG level
+export const WCAG_CONTRAST_RATIOS: Record<ContrastLevel, number> = {
+  AA: 4.5,
+  AAA: 7,
+};
+
+const WHITE: RgbColor = { r: 255, g: 255, b: 255 };
+const NEAR_BLACK: RgbColor = { r: 17, g: 24, b: 39 };
+
+/**
+ * Parse a color in hex (#rgb, #rrggbb), rgb() or hsl() notation into RGB channels.
+ * Returns null for anything else, including colors with an alpha channel and values
+ * from config.json that aren't strings.
+ */
+export function parseColor(color: unknown): RgbColor | null {
+  if (typeof color !== 'string') {
+    return null;
+  }
+
+  const value = color.trim();
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16)
+    };
+  }
+
+  const fn = /^(rgb|hsl)\(([^()]*)\)$/i.exec(value);
+  if (!fn) {
+    return null;
+  }
+
+  // Both the legacy comma-separated and the space-separated syntax are accepted
+  const args = fn[2].trim().split(/\s*,\s*|\s+/);
+  if (args.length !== 3) {
+    return null;
+  }
+
+  if (fn[1].toLowerCase() === 'rgb') {
+    const [r, g, b] = args.map(arg => parseColorComponent(arg, 255, false));
+    return r === null || g === null || b === null
+      ? null
+      : { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+  }
+
+  const hue = /^(-?\d+(?:\.\d+)?)(deg)?$/i.exec(args[0]);
+  const saturation = parseColorComponent(args[1], 100, true);
+  const lightness = parseColorComponent(args[2], 100, true);
+  if (!hue || saturation === null || lightness === null) {
+    return null;
+  }
+
+  return hslToRgb(Number(hue[1]), saturation / 100, lightness / 100);
+}
+
+
+/**
+ * Parses one rgb()/hsl() argument; percentages scale to `max`, plain numbers must not exceed it
+ */
+function parseColorComponent(arg: string, max: number, percentOnly: boolean): number | null {
+  const match = /^(\d+(?:\.\d+)?)(%)?$/.exec(arg);
+  if (!match || (percentOnly && !match[2])) {
+    return null;
+  }
+
+  const number = Number(match[1]);
+  const scaled = match[2] ? (number / 100) * max : number;
+  return scaled <= max ? scaled : null;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): RgbColor {
+  const h = (((hue % 360) + 360) % 360) / 360;
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  const channel = (offset: number) => {
+    let t = h + offset;
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return {
+    r: Math.round(channel(1 / 3) * 255),
+    g: Math.round(channel(0) * 255),
+    b: Math.round(channel(-1 / 3) * 255)
+  };
+}
+
+/**
+ * Mixes `weight` of the second color into the first
+ */
+export function mixColors(color: RgbColor, mix: RgbColor, weight: number): RgbColor {
+  return {
+    r: Math.round(color.r + (mix.r - color.r) * weight),
+    g: Math.round(color.g + (mix.g - color.g) * weight),
+    b: Math.round(color.b + (mix.b - color.b) * weight)
+  };
+}
+
+/**
+ * Formats RGB channels as a #rrggbb hex color
+ */
+export function toHexColor(color: RgbColor): string {
+  return `#${[color.r, color.g, color.b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * WCAG relative luminance, from 0 for black to 1 for white
+ */
+export function getRelativeLuminance(color: RgbColor): number {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ */
+export function getContrastRatio(foreground: RgbColor, background: RgbColor): number {
+  const lighter = Math.max(getRelativeLuminance(foreground), getRelativeLuminance(background));
+  const darker = Math.min(getRelativeLuminance(foreground), getRelativeLuminance(background));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Lowest contrast of a text color against any of the backgrounds it can sit on, e.g. gradient stops
+ */
+export function getMinimumContrast(foreground: RgbColor, backgrounds: RgbColor[]): number {
+  return Math.min(...backgrounds.map(background => getContrastRatio(foreground, background)));
+}
+
+/**
+ * White or near-black, whichever reads better on all of the given backgrounds
+ */
+export function getReadableTextColor(backgrounds: RgbColor[]): RgbColor {
+  return getMinimumContrast(WHITE, backgrounds) >= getMinimumContrast(NEAR_BLACK, backgrounds)
+    ? WHITE
+    : NEAR_BLACK;
+}
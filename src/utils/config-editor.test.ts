@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getConfigOverrides, serializeConfig } from './config-editor';
+import { resolveConfig } from './config-loader';
+
+const config = resolveConfig({ profile: { name: 'Alex', bio: '' } });
+
+describe('getConfigOverrides', () => {
+  it('is empty for the defaults', () => {
+    expect(getConfigOverrides(resolveConfig({}))).toEqual({});
+  });
+
+  it('keeps the theme preset by name, without the values it expands to', () => {
+    expect(getConfigOverrides(resolveConfig({ theme: { preset: 'neon' } }))).toEqual({
+      theme: { preset: 'neon' },
+    });
+  });
+
+  it('keeps values changed on top of the preset', () => {
+    const overrides = getConfigOverrides(resolveConfig({ theme: { preset: 'neon', primaryColor: '#00ff00' } }));
+    expect(overrides).toEqual({ theme: { preset: 'neon', primaryColor: '#00ff00' } });
+  });
+
+  it('keeps a changed list in full', () => {
+    const links = [{ title: 'Shop', url: 'https://shop.example.com' }];
+    expect(getConfigOverrides(resolveConfig({ links })).links).toHaveLength(1);
+  });
+});
+
+describe('serializeConfig', () => {
+  it('writes only changed fields and leaves cleared ones out of the file', () => {
+    const exported = JSON.parse(serializeConfig(config));
+    expect(exported).toEqual({ profile: { name: 'Alex' } });
+  });
+
+  it('writes the profiles back as loaded', () => {
+    const profiles = { alice: { profile: { name: 'Alice', bio: '' } }, 'Bad Slug': { profile: { name: 'Bad' } } };
+    const exported = JSON.parse(serializeConfig(config, profiles));
+    expect(exported.profiles).toEqual(profiles);
+    expect(exported.profile.name).toBe('Alex');
+  });
+
+  it('ends the file with a newline', () => {
+    expect(serializeConfig(config).endsWith('}\n')).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Helpers for the in-browser configuration editor
+ */
+
+import { getBaseConfig } from './config-loader';
+import { downloadBlob } from './download';
+import { getCurrentRoutePath } from './router';
+import { sanitizeConfig } from './validation';
+import type { ConfigError, DeepPartial, LinkTreeConfig, ProfilesConfig } from '@/types/config';
+
+export const EDITOR_PATH = 'edit';
+export const EXPORT_FILENAME = 'config.json';
+
+export interface FieldIssues {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Whether the editor can be opened. Like query parameter previews it is limited
+ * to development unless explicitly enabled for a deployment.
+ */
+export function isEditorEnabled(): boolean {
+  return import.meta.env.DEV || import.meta.env.VITE_ENABLE_EDITOR === 'true';
+}
+
+/**
+ * Whether the current page is the editor route (`/edit` below the base URL)
+ */
+export function isEditorRequested(): boolean {
+  if (!isEditorEnabled()) {
+    return false;
+  }
+
+  return getCurrentRoutePath() === EDITOR_PATH;
+}
+
+/**
+ * Groups validation results by field path, e.g. `links[2].url`
+ */
+export function groupIssuesByField(errors: ConfigError[], warnings: ConfigError[]): Record<string, FieldIssues> {
+  const issues: Record<string, FieldIssues> = {};
+  const entry = (field: string) => (issues[field] ??= { errors: [], warnings: [] });
+
+  errors.forEach(error => entry(error.field).errors.push(error.message));
+  warnings.forEach(warning => entry(warning.field).warnings.push(warning.message));
+
+  return issues;
+}
+
+/**
+ * Returns a copy of the list with one item moved
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parts of a value that differ from the base, or undefined when nothing does.
+ * Lists are compared as a whole and kept in full when they differ.
+ */
+function getChangedValues(value: unknown, base: unknown): unknown {
+  if (isPlainObject(value) && isPlainObject(base)) {
+    const changed = Object.entries(value)
+      .map(([key, item]) => [key, getChangedValues(item, base[key])] as const)
+      .filter(([, item]) => item !== undefined);
+    return changed.length > 0 ? Object.fromEntries(changed) : undefined;
+  }
+  // A cleared field is left out of the file, the same as one the base doesn't have
+  if (value === '' && base === undefined) {
+    return undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+}
+
+/**
+ * Fields of a resolved configuration that differ from the defaults and its theme preset.
+ * The preset is kept by name rather than as the colors it expands to, so a profile that
+ * selects another preset still gets that preset's values.
+ */
+export function getConfigOverrides(config: LinkTreeConfig): DeepPartial<LinkTreeConfig> {
+  const base = sanitizeConfig(getBaseConfig(config.theme.preset));
+  return (getChangedValues(config, base) ?? {}) as DeepPartial<LinkTreeConfig>;
+}
+
+/**
+ * Serializes the configuration for export: only the fields that differ from the defaults and
+ * the theme preset. Cleared optional fields are stored as empty strings while editing and are
+ * left out of the file. Profiles aren't edited, so they are written back as loaded, empty
+ * strings included.
+ */
+export function serializeConfig(config: LinkTreeConfig, profiles: ProfilesConfig = {}): string {
+  const home = JSON.parse(JSON.stringify(getConfigOverrides(config), (_, value) => (value === '' ? undefined : value)));
+  const exported = Object.keys(profiles).length > 0 ? { ...home, profiles } : home;
+  return `${JSON.stringify(exported, null, 2)}\n`;
+}
+
+/**
+ * Downloads the configuration as a JSON file
+ */
+export function downloadConfig(
+  config: LinkTreeConfig,
+  profiles: ProfilesConfig = {},
+  filename: string = EXPORT_FILENAME
+): void {
+  downloadBlob(new Blob([serializeConfig(config, profiles)], { type: 'application/json' }), filename);
+}
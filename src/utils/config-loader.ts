@@ -7,14 +7,26 @@ import type {
   LinkTreeConfig, 
   ConfigError, 
   ValidationResult,
+  ConfigSource,
+  ConfigSourceDiagnostic,
+  ConfigLoadResult,
+  ConfigDocument,
   DeepPartial 
 } from '@/types/config';
 import { 
   validateConfig as validateConfigSecurity,
   sanitizeConfig as sanitizeConfigSecurity,
   validateUrl,
-  validateHexColor
+  validateLinkUrl,
+  validateColor
 } from './validation';
+import { isPlatformConfig, fromPlatformConfig } from './platform-config';
+import { getDefaultConfigSources } from './config-sources';
+import { devLog } from './dev-log';
+import { getThemePreset } from './theme-presets';
+import { getFontStack } from './fonts';
+import { EMBED_KINDS } from './embeds';
+import { THEME_COLOR_VARIABLES, getThemeColorVariables } from './palette';
 
 // Default configuration fallback
 const DEFAULT_CONFIG: LinkTreeConfig = {
@@ -44,16 +56,8 @@ const DEFAULT_CONFIG: LinkTreeConfig = {
       featured: true
     }
   ],
-  socialMedia: {
-    twitter: "",
-    instagram: "",
-    github: "",
-    linkedin: "",
-    youtube: "",
-    tiktok: "",
-    discord: "",
-    twitch: ""
-  },
+  // Empty so merged accounts keep the order they are listed in
+  socialMedia: {},
   theme: {
     colorScheme: "auto",
     primaryColor: "#6366f1",
@@ -84,11 +88,19 @@ const DEFAULT_CONFIG: LinkTreeConfig = {
     trackClicks: true,
     trackSocialClicks: true
   },
+  accessibility: {
+    highContrast: false,
+    reducedMotion: false,
+    screenReaderOptimized: false,
+    keyboardNavigation: false,
+    showControls: true
+  },
   advanced: {
     enablePWA: false,
     enableDarkMode: true,
     enableAnimations: true,
-    preloadImages: true
+    preloadImages: true,
+    enableSharing: true
   }
 };
 
@@ -122,12 +134,35 @@ export function validateConfig(config: any): ValidationResult {
   } else {
     config.links.forEach((link: any, index: number) => {
       const prefix = `links[${index}]`;
+      if (link.type === 'heading') {
+        if (!link.text || typeof link.text !== 'string') {
+          errors.push({ field: `${prefix}.text`, message: 'Heading text is required and must be a string' });
+        }
+        return;
+      }
+      if (link.type === 'divider') {
+        return;
+      }
+      if (EMBED_KINDS.includes(link.type)) {
+        if (!link.title || typeof link.title !== 'string') {
+          errors.push({ field: `${prefix}.title`, message: 'Title is required and must be a string' });
+        }
+        const source = link.type === 'map' ? 'location' : 'url';
+        if (!link[source] || typeof link[source] !== 'string') {
+          errors.push({ field: `${prefix}.${source}`, message: `${link.type === 'map' ? 'Map location' : 'URL'} is required and must be a string` });
+        }
+        return;
+      }
+      if (link.type !== undefined && link.type !== 'link') {
+        errors.push({ field: `${prefix}.type`, message: `Block type must be one of: link, heading, divider, ${EMBED_KINDS.join(', ')}` });
+        return;
+      }
       if (!link.title || typeof link.title !== 'string') {
         errors.push({ field: `${prefix}.title`, message: 'Link title is required and must be a string' });
       }
       if (!link.url || typeof link.url !== 'string') {
         errors.push({ field: `${prefix}.url`, message: 'Link URL is required and must be a string' });
-      } else if (!isValidUrl(link.url)) {
+      } else if (!validateLinkUrl(link.url)) {
         errors.push({ field: `${prefix}.url`, message: 'Link URL must be a valid URL' });
       }
       if (typeof link.enabled !== 'boolean') {
@@ -148,8 +183,8 @@ export function validateConfig(config: any): ValidationResult {
       });
     }
     
-    if (!isValidHexColor(config.theme.primaryColor)) {
-      errors.push({ field: 'theme.primaryColor', message: 'Primary color must be a valid hex color' });
+    if (!isValidColor(config.theme.primaryColor)) {
+      errors.push({ field: 'theme.primaryColor', message: 'Primary color must be a valid hex, rgb() or hsl() color' });
     }
   }
 
@@ -171,51 +206,107 @@ export function validateConfig(config: any): ValidationResult {
 }
 
 /**
- * Loads configuration from multiple sources and merges them
+ * Loads the configuration document from the first source that has one. It is resolved per page,
+ * since each profile in the document merges its own overrides over the shared configuration.
  */
-export async function loadConfig(): Promise<LinkTreeConfig> {
+export async function loadConfigDocument(sources: ConfigSource[] = getDefaultConfigSources()): Promise<ConfigDocument> {
   try {
     // Try to load user configuration
-    const userConfig = await loadUserConfig();
+    const { config: userConfig, source, diagnostics } = await resolveUserConfig(sources);
 
-    // Merge with defaults
-    const mergedConfig = mergeConfig(DEFAULT_CONFIG, userConfig);
+    devLog('info', `Configuration loaded from ${source ?? 'defaults'}`, diagnostics);
 
-    // Validate the final configuration using security validation
-    const validation = validateConfigSecurity(mergedConfig);
+    return userConfig;
+  } catch (error) {
+    console.error('Failed to load configuration:', error);
+    return {};
+  }
+}
 
-    if (!validation.isValid) {
-      console.warn('Configuration validation errors:', validation.errors);
-      // Return default config with any valid user overrides
-      return mergeConfig(DEFAULT_CONFIG, sanitizeConfigSecurity(mergedConfig));
-    }
+/**
+ * Defaults with a theme preset's values layered over them; user configuration is merged onto this
+ */
+export function getBaseConfig(presetName: unknown): LinkTreeConfig {
+  const preset = getThemePreset(presetName);
+  return preset ? mergeConfig(DEFAULT_CONFIG, { theme: preset.config }) : DEFAULT_CONFIG;
+}
 
-    if (validation.warnings.length > 0) {
-      console.warn('Configuration validation warnings:', validation.warnings);
-    }
+/**
+ * Merges user configuration over the defaults, then validates and sanitizes the result.
+ * Synchronous so the pre-renderer and client hydration resolve identical configs.
+ */
+export function resolveConfig(userConfig: DeepPartial<LinkTreeConfig>): LinkTreeConfig {
+  // Merge with defaults, layering the selected theme preset underneath the user's values
+  const mergedConfig = mergeConfig(getBaseConfig(userConfig.theme?.preset), userConfig);
 
-    // Apply additional sanitization to prevent XSS
-    return sanitizeConfigSecurity(mergedConfig);
-  } catch (error) {
-    console.error('Failed to load configuration:', error);
-    return DEFAULT_CONFIG;
+  // Validate the final configuration using security validation
+  const validation = validateConfigSecurity(mergedConfig);
+
+  if (!validation.isValid) {
+    devLog('warn', 'Configuration validation errors:', validation.errors);
+    // Return default config with any valid user overrides
+    return mergeConfig(DEFAULT_CONFIG, sanitizeConfigSecurity(mergedConfig));
   }
+
+  if (validation.warnings.length > 0) {
+    devLog('warn', 'Configuration validation warnings:', validation.warnings);
+  }
+
+  // Apply additional sanitization to prevent XSS
+  return sanitizeConfigSecurity(mergedConfig);
 }
 
 /**
- * Loads user configuration from config.json
+ * Walks the configuration sources in order and returns the first one that yields a document,
+ * together with a diagnostic entry for every source that was consulted
  */
-async function loadUserConfig(): Promise<DeepPartial<LinkTreeConfig>> {
-  try {
-    const response = await fetch('/src/config.json');
-    if (!response.ok) {
-      throw new Error(`Failed to load config: ${response.status}`);
+export async function resolveUserConfig(sources: ConfigSource[] = getDefaultConfigSources()): Promise<ConfigLoadResult> {
+  const diagnostics: ConfigSourceDiagnostic[] = [];
+
+  for (const source of sources) {
+    try {
+      const data = await source.load();
+
+      if (data === null || data === undefined) {
+        diagnostics.push({ source: source.name, status: 'skipped', message: 'No configuration provided' });
+        continue;
+      }
+
+      if (typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Configuration must be a JSON object');
+      }
+
+      diagnostics.push({ source: source.name, status: 'loaded' });
+      return { config: normalizeUserConfig(data), source: source.name, diagnostics };
+    } catch (error) {
+      diagnostics.push({
+        source: source.name,
+        status: 'failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
     }
-    return await response.json();
-  } catch (error) {
-    console.warn('Could not load user config, using defaults:', error);
-    return {};
   }
+
+  devLog('warn', 'Could not load user config, using defaults:', diagnostics);
+  return { config: {}, source: null, diagnostics };
+}
+
+/**
+ * Translates the platform site format into LinkTreeConfig when needed
+ */
+export function normalizeUserConfig(data: object): ConfigDocument {
+  if (!isPlatformConfig(data)) {
+    return data as ConfigDocument;
+  }
+
+  const result = fromPlatformConfig(data);
+  if (!result.isValid) {
+    devLog('warn', 'Platform configuration errors:', result.errors);
+  }
+  if (result.warnings.length > 0) {
+    devLog('warn', 'Platform configuration warnings:', result.warnings);
+  }
+  return result.config;
 }
 
 /**
@@ -242,69 +333,6 @@ export function mergeConfig<T>(base: T, override: DeepPartial<T>): T {
   return result;
 }
 
-/**
- * Sanitizes configuration by removing invalid fields
- */
-function sanitizeConfig(config: any): DeepPartial<LinkTreeConfig> {
-  if (!config || typeof config !== 'object') {
-    return {};
-  }
-  
-  const sanitized: any = {};
-  
-  // Sanitize profile
-  if (config.profile && typeof config.profile === 'object') {
-    sanitized.profile = {};
-    if (typeof config.profile.name === 'string') {
-      sanitized.profile.name = config.profile.name;
-    }
-    if (typeof config.profile.bio === 'string') {
-      sanitized.profile.bio = config.profile.bio;
-    }
-    if (typeof config.profile.avatar === 'string') {
-      sanitized.profile.avatar = config.profile.avatar;
-    }
-    if (typeof config.profile.location === 'string') {
-      sanitized.profile.location = config.profile.location;
-    }
-  }
-  
-  // Sanitize links
-  if (Array.isArray(config.links)) {
-    sanitized.links = config.links
-      .filter((link: any) => 
-        link && 
-        typeof link === 'object' && 
-        typeof link.title === 'string' && 
-        typeof link.url === 'string'
-      )
-      .map((link: any) => ({
-        title: link.title,
-        url: link.url,
-        description: typeof link.description === 'string' ? link.description : '',
-        icon: typeof link.icon === 'string' ? link.icon : 'link',
-        enabled: typeof link.enabled === 'boolean' ? link.enabled : true,
-        newTab: typeof link.newTab === 'boolean' ? link.newTab : true,
-        featured: typeof link.featured === 'boolean' ? link.featured : false
-      }));
-  }
-  
-  // Sanitize other sections similarly...
-  if (config.theme && typeof config.theme === 'object') {
-    sanitized.theme = {};
-    const validColorSchemes = ['light', 'dark', 'auto'];
-    if (validColorSchemes.includes(config.theme.colorScheme)) {
-      sanitized.theme.colorScheme = config.theme.colorScheme;
-    }
-    if (isValidHexColor(config.theme.primaryColor)) {
-      sanitized.theme.primaryColor = config.theme.primaryColor;
-    }
-    // Add other theme fields...
-  }
-  
-  return sanitized;
-}
-
 /**
  * Utility functions
  */
@@ -316,14 +344,15 @@ function isValidUrl(url: string): boolean {
   return validateUrl(url);
 }
 
-function isValidHexColor(color: string): boolean {
-  return validateHexColor(color);
+function isValidColor(color: string): boolean {
+  return validateColor(color);
 }
 
 /**
- * Updates the document title and meta tags based on SEO config
+ * Updates the document title and meta tags based on SEO config and the page's absolute URL,
+ * which is undefined when no site URL is configured
  */
-export function updateSEOMetadata(seo: LinkTreeConfig['seo']): void {
+export function updateSEOMetadata(seo: LinkTreeConfig['seo'], pageUrl: string | undefined): void {
   // Update document title
   document.title = seo.title;
   
@@ -351,6 +380,12 @@ export function updateSEOMetadata(seo: LinkTreeConfig['seo']): void {
     ogDescription.setAttribute('content', seo.description);
   }
   
+  // Update Open Graph URL
+  const ogUrl = document.querySelector('meta[property="og:url"]');
+  if (ogUrl && pageUrl) {
+    ogUrl.setAttribute('content', pageUrl);
+  }
+  
   // Update Twitter title
   const twitterTitle = document.querySelector('meta[name="twitter:title"]');
   if (twitterTitle) {
@@ -363,6 +398,12 @@ export function updateSEOMetadata(seo: LinkTreeConfig['seo']): void {
     twitterDescription.setAttribute('content', seo.description);
   }
   
+  // Update the home screen title on iOS
+  const appleTitle = document.querySelector('meta[name="apple-mobile-web-app-title"]');
+  if (appleTitle) {
+    appleTitle.setAttribute('content', seo.title);
+  }
+  
   // Update favicon if provided
   if (seo.favicon) {
     const favicon = document.querySelector('link[rel="icon"]');
@@ -378,33 +419,18 @@ export function updateSEOMetadata(seo: LinkTreeConfig['seo']): void {
 export function applyThemeVariables(theme: LinkTreeConfig['theme']): void {
   const root = document.documentElement;
   
-  // Convert hex to RGB for transparency usage
-  const hexToRgb = (hex: string) => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : null;
-  };
-  
-  const primaryRgb = hexToRgb(theme.primaryColor);
-  
-  // Set CSS variables
-  root.style.setProperty('--primary-color', theme.primaryColor);
-  if (primaryRgb) {
-    root.style.setProperty('--primary-color-rgb', `${primaryRgb.r}, ${primaryRgb.g}, ${primaryRgb.b}`);
-  }
+  // Set palette colors, their RGB channels and tint/shade scales, clearing ones no longer configured
+  const colorVariables = getThemeColorVariables(theme);
+  THEME_COLOR_VARIABLES.forEach(name => {
+    if (colorVariables[name]) {
+      root.style.setProperty(name, colorVariables[name]);
+    } else {
+      root.style.removeProperty(name);
+    }
+  });
   
-  // Set font family
-  const fontFamilyMap = {
-    inter: 'Inter, system-ui, sans-serif',
-    poppins: 'Poppins, system-ui, sans-serif',
-    roboto: 'Roboto, system-ui, sans-serif',
-    montserrat: 'Montserrat, system-ui, sans-serif',
-    playfair: 'Playfair Display, serif'
-  };
-  root.style.setProperty('--font-family', fontFamilyMap[theme.fontFamily]);
+  // Set font family; the font files are declared by loadThemeFont
+  root.style.setProperty('--font-family', getFontStack(theme));
   
   // Set background image if provided
   if (theme.backgroundStyle === 'image' && theme.backgroundImage) {
@@ -419,6 +445,10 @@ export function applyThemeVariables(theme: LinkTreeConfig['theme']): void {
  */
 export function getEffectiveColorScheme(colorScheme: LinkTreeConfig['theme']['colorScheme']): 'light' | 'dark' {
   if (colorScheme === 'auto') {
+    // No system preference is available while pre-rendering
+    if (typeof window === 'undefined') {
+      return 'light';
+    }
     return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
   }
   return colorScheme;
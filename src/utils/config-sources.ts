@@ -0,0 +1,139 @@
+/**
+ * Configuration sources for LinkTree Modern
+ * Each source knows how to produce a raw configuration document from one location
+ */
+
+import type { ConfigSource } from '@/types/config';
+import embeddedConfig from '../config.json';
+
+export const STATIC_CONFIG_PATH = 'config.json';
+export const INLINE_CONFIG_ELEMENT_ID = 'linktree-config';
+export const PREVIEW_QUERY_PARAM = 'config';
+
+/**
+ * Static file written to public/config.json by `npm run apply-config`
+ */
+export function createStaticFileSource(
+  url: string = `${import.meta.env.BASE_URL}${STATIC_CONFIG_PATH}`
+): ConfigSource {
+  return {
+    name: `static file (${url})`,
+    load: async () => {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load config: ${response.status}`);
+      }
+      // SPA fallbacks answer unknown paths with index.html
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('json')) {
+        return null;
+      }
+      return await response.json();
+    }
+  };
+}
+
+/**
+ * Inline <script type="application/json"> element in index.html
+ */
+export function createInlineScriptSource(elementId: string = INLINE_CONFIG_ELEMENT_ID): ConfigSource {
+  return {
+    name: `inline script (#${elementId})`,
+    load: async () => readInlineConfig(elementId)
+  };
+}
+
+/**
+ * Synchronously reads the inline configuration element, returning null when it is absent or empty
+ */
+export function readInlineConfig(elementId: string = INLINE_CONFIG_ELEMENT_ID): unknown | null {
+  const element = document.getElementById(elementId);
+  if (!element || element.getAttribute('type') !== 'application/json') {
+    return null;
+  }
+  const content = element.textContent?.trim();
+  return content ? JSON.parse(content) : null;
+}
+
+/**
+ * Base64url-encoded JSON in a URL query parameter, used for previews
+ */
+export function createQueryParamSource(param: string = PREVIEW_QUERY_PARAM): ConfigSource {
+  return {
+    name: `query parameter (?${param}=)`,
+    load: async () => {
+      const encoded = new URLSearchParams(window.location.search).get(param);
+      if (!encoded) {
+        return null;
+      }
+      return JSON.parse(decodeBase64Url(encoded));
+    }
+  };
+}
+
+/**
+ * Configuration bundled at build time from src/config.json
+ */
+export function createEmbeddedSource(config: unknown = embeddedConfig): ConfigSource {
+  return {
+    name: 'embedded (src/config.json)',
+    load: async () => config
+  };
+}
+
+/**
+ * Default fallback chain, highest priority first.
+ * Query parameter previews are only honored in development or when explicitly enabled,
+ * so a crafted link cannot replace the content of a production page.
+ */
+export function getDefaultConfigSources(): ConfigSource[] {
+  const sources: ConfigSource[] = [];
+
+  if (isPreviewEnabled()) {
+    sources.push(createQueryParamSource());
+  }
+
+  sources.push(
+    createInlineScriptSource(),
+    createStaticFileSource(),
+    createEmbeddedSource()
+  );
+
+  return sources;
+}
+
+/**
+ * Whether the preview query parameter source is part of the default chain
+ */
+export function isPreviewEnabled(): boolean {
+  return import.meta.env.DEV || import.meta.env.VITE_ENABLE_CONFIG_PREVIEW === 'true';
+}
+
+/**
+ * Whether the current page was opened with a preview configuration that should be honored
+ */
+export function isPreviewRequested(param: string = PREVIEW_QUERY_PARAM): boolean {
+  return isPreviewEnabled() && new URLSearchParams(window.location.search).has(param);
+}
+
+/**
+ * Encodes a configuration object for use with the preview query parameter
+ */
+export function encodePreviewConfig(config: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(config));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,127 @@
+/**
+ * Consent management for third-party analytics
+ * Preferences are stored on the visitor's device and mapped to Google Consent Mode v2 signals.
+ */
+
+import type {
+  AnalyticsConfig,
+  ConsentCategory,
+  ConsentModeState,
+  ConsentPreferences
+} from '@/types/config';
+import { validateFacebookPixelId, validateGoogleAnalyticsId } from './validation';
+
+export const CONSENT_STORAGE_KEY = 'linktree-consent';
+
+/** Bump to ask every visitor again, e.g. after adding a new third-party service */
+export const CONSENT_VERSION = 1;
+
+// Cookies set by gtag.js and the Facebook Pixel
+const TRACKING_COOKIE_PATTERN = /^(_ga|_gid|_gat|_gcl_|_fbp|_fbc)/;
+
+/**
+ * Returns the consent categories needed by the configured third-party services
+ */
+export function getRequiredConsentCategories(analytics: AnalyticsConfig): ConsentCategory[] {
+  const categories: ConsentCategory[] = [];
+
+  if (analytics.googleAnalyticsId && validateGoogleAnalyticsId(analytics.googleAnalyticsId)) {
+    categories.push('analytics');
+  }
+
+  if (analytics.facebookPixelId && validateFacebookPixelId(analytics.facebookPixelId)) {
+    categories.push('marketing');
+  }
+
+  return categories;
+}
+
+/**
+ * Creates a preferences record for the given choices
+ */
+export function createConsentPreferences(
+  choices: Record<ConsentCategory, boolean>
+): ConsentPreferences {
+  return {
+    analytics: choices.analytics,
+    marketing: choices.marketing,
+    updatedAt: Date.now(),
+    version: CONSENT_VERSION
+  };
+}
+
+/**
+ * Loads stored preferences, returning null when the visitor has not decided yet
+ * or decided under an older consent version
+ */
+export function loadConsentPreferences(): ConsentPreferences | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONSENT_STORAGE_KEY) || 'null');
+
+    if (
+      !stored ||
+      typeof stored.analytics !== 'boolean' ||
+      typeof stored.marketing !== 'boolean' ||
+      stored.version !== CONSENT_VERSION
+    ) {
+      return null;
+    }
+
+    return {
+      analytics: stored.analytics,
+      marketing: stored.marketing,
+      updatedAt: typeof stored.updatedAt === 'number' ? stored.updatedAt : 0,
+      version: stored.version
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persists preferences on the visitor's device
+ */
+export function saveConsentPreferences(preferences: ConsentPreferences): void {
+  try {
+    localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage may be unavailable (private mode, quota); the choice still applies to this visit
+  }
+}
+
+/**
+ * Maps preferences to Google Consent Mode v2 signals. Missing preferences deny everything.
+ */
+export function getConsentModeState(preferences: ConsentPreferences | null): ConsentModeState {
+  const analytics = preferences?.analytics ? 'granted' : 'denied';
+  const marketing = preferences?.marketing ? 'granted' : 'denied';
+
+  return {
+    analytics_storage: analytics,
+    ad_storage: marketing,
+    ad_user_data: marketing,
+    ad_personalization: marketing
+  };
+}
+
+/**
+ * Expires cookies left by third-party trackers after consent is withdrawn
+ */
+export function clearTrackingCookies(): void {
+  const hostnameParts = window.location.hostname.split('.');
+  const domains = hostnameParts.map((_, index) => hostnameParts.slice(index).join('.'));
+
+  document.cookie.split(';').forEach(cookie => {
+    const name = cookie.split('=')[0].trim();
+    if (!TRACKING_COOKIE_PATTERN.test(name)) {
+      return;
+    }
+
+    // Cookies may have been set on the current host or any parent domain
+    const expire = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+    document.cookie = expire;
+    domains.forEach(domain => {
+      document.cookie = `${expire}; domain=${domain}`;
+    });
+  });
+}
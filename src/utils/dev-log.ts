@@ -0,0 +1,16 @@
+/**
+ * Development diagnostics for LinkTree Modern
+ * Messages that only help while building a site go through here, so production bundles and the
+ * pre-renderer stay quiet and there is a single console call to maintain.
+ */
+
+export type DevLogLevel = 'info' | 'warn';
+
+/**
+ * Logs a diagnostic to the browser console in development; does nothing in production builds
+ */
+export function devLog(level: DevLogLevel, message: string, ...details: unknown[]): void {
+  if (import.meta.env.DEV) {
+    console[level](message, ...details);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * File downloads for LinkTree Modern
+ * Files the page generates in the browser, such as QR codes, contact cards and the editor's
+ * config.json export.
+ */
+
+/**
+ * File name from a title, e.g. "My Blog!" and "svg" give "my-blog.svg"
+ */
+export function getDownloadFileName(title: string, extension: string, fallback = 'download'): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || fallback}.${extension}`;
+}
+
+/**
+ * Saves a file the page generated
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  // Revoked on the next task, once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,218 @@
+/**
+ * Embed provider registry for LinkTree Modern
+ * Video and music blocks play inline through the provider whose hosts match the block URL;
+ * map blocks show the location on Google Maps. Nothing is loaded from a provider until the
+ * visitor opens the block. Adding a provider only needs a new entry here and its frame origin
+ * in the Content Security Policy.
+ */
+
+import type {
+  EmbedBlockConfig,
+  EmbedFrame,
+  EmbedKind,
+  EmbedProvider,
+  EmbedProviderDefinition,
+  LinkBlockConfig,
+  MediaEmbedConfig
+} from '@/types/config';
+
+export const EMBED_KINDS: EmbedKind[] = ['video', 'music', 'map'];
+
+export const MAP_LOCATION_MAX_LENGTH = 200;
+
+const YOUTUBE_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_LIST_PATTERN = /^[A-Za-z0-9_-]{10,64}$/;
+const SPOTIFY_PATH_PATTERN = /^\/(?:intl-[a-z-]+\/)?(track|album|playlist|artist|episode|show)\/([A-Za-z0-9]{22})\/?$/;
+const SOUNDCLOUD_PATH_PATTERN = /^\/[A-Za-z0-9_-]+\/(sets\/)?[A-Za-z0-9_-]+\/?$/;
+const APPLE_MUSIC_PATH_PATTERN = /^\/[a-z]{2}\/(album|playlist|song)\/(?:[^/]+\/)?[A-Za-z0-9.-]+$/;
+
+const MAP_FRAME_HEIGHT = 300;
+
+/**
+ * Start offset in seconds from a YouTube `t` parameter such as "90" or "90s"
+ */
+function getYouTubeStart(url: URL): number | null {
+  const match = /^(\d+)s?$/.exec(url.searchParams.get('t') ?? url.searchParams.get('start') ?? '');
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * ID of the video a YouTube URL points to: youtu.be/ID, /watch?v=ID, /shorts/ID, /live/ID or /embed/ID
+ */
+function getYouTubeVideoId(url: URL): string | null {
+  const [first, second] = url.pathname.split('/').filter(Boolean);
+  const id = url.hostname.endsWith('youtu.be')
+    ? first
+    : first === 'watch'
+      ? url.searchParams.get('v')
+      : ['shorts', 'live', 'embed'].includes(first) ? second : null;
+  return id && YOUTUBE_ID_PATTERN.test(id) ? id : null;
+}
+
+export const EMBED_PROVIDERS = {
+  'youtube': {
+    name: 'YouTube',
+    kind: 'video',
+    hosts: ['youtube.com', 'youtu.be', 'youtube-nocookie.com'],
+    getFrame: (url) => {
+      const start = getYouTubeStart(url);
+      const query = `autoplay=1${start ? `&start=${start}` : ''}`;
+
+      const videoId = getYouTubeVideoId(url);
+      if (videoId) {
+        return { src: `https://www.youtube-nocookie.com/embed/${videoId}?${query}` };
+      }
+
+      const list = url.searchParams.get('list');
+      if (url.pathname === '/playlist' && list && YOUTUBE_LIST_PATTERN.test(list)) {
+        return { src: `https://www.youtube-nocookie.com/embed/videoseries?list=${list}&autoplay=1` };
+      }
+      return null;
+    },
+  },
+  'vimeo': {
+    name: 'Vimeo',
+    kind: 'video',
+    hosts: ['vimeo.com'],
+    getFrame: (url) => {
+      // vimeo.com/ID, vimeo.com/ID/HASH for unlisted videos, or player.vimeo.com/video/ID
+      const match = /^\/(?:video\/)?(\d{1,12})(?:\/([0-9a-f]{6,20}))?\/?$/.exec(url.pathname);
+      if (!match) {
+        return null;
+      }
+      const hash = match[2] ?? url.searchParams.get('h');
+      const query = `autoplay=1&dnt=1${hash && /^[0-9a-f]{6,20}$/.test(hash) ? `&h=${hash}` : ''}`;
+      return { src: `https://player.vimeo.com/video/${match[1]}?${query}` };
+    },
+  },
+  'spotify': {
+    name: 'Spotify',
+    kind: 'music',
+    hosts: ['open.spotify.com'],
+    getFrame: (url) => {
+      const match = SPOTIFY_PATH_PATTERN.exec(url.pathname);
+      if (!match) {
+        return null;
+      }
+      const [, type, id] = match;
+      return {
+        src: `https://open.spotify.com/embed/${type}/${id}`,
+        height: type === 'track' || type === 'episode' ? 152 : 352,
+      };
+    },
+  },
+  'soundcloud': {
+    name: 'SoundCloud',
+    kind: 'music',
+    hosts: ['soundcloud.com'],
+    getFrame: (url) => {
+      if (!['soundcloud.com', 'www.soundcloud.com', 'm.soundcloud.com'].includes(url.hostname) ||
+          !SOUNDCLOUD_PATH_PATTERN.test(url.pathname)) {
+        return null;
+      }
+      const trackUrl = encodeURIComponent(`https://soundcloud.com${url.pathname.replace(/\/$/, '')}`);
+      return {
+        src: `https://w.soundcloud.com/player/?url=${trackUrl}&auto_play=true&visual=false`,
+        height: url.pathname.includes('/sets/') ? 450 : 166,
+      };
+    },
+  },
+  'apple-music': {
+    name: 'Apple Music',
+    kind: 'music',
+    hosts: ['music.apple.com'],
+    getFrame: (url) => {
+      const match = APPLE_MUSIC_PATH_PATTERN.exec(url.pathname);
+      if (!match) {
+        return null;
+      }
+      // ?i= picks one song of an album
+      const song = url.searchParams.get('i');
+      const songQuery = song && /^\d+$/.test(song) ? `?i=${song}` : '';
+      return {
+        src: `https://embed.music.apple.com${url.pathname}${songQuery}`,
+        height: match[1] === 'song' || songQuery ? 175 : 450,
+      };
+    },
+  },
+} satisfies Record<string, EmbedProviderDefinition>;
+
+/**
+ * Provider identifiers in display order
+ */
+export const EMBED_PROVIDER_NAMES = Object.keys(EMBED_PROVIDERS) as EmbedProvider[];
+
+/**
+ * Whether a block expands into an embed
+ */
+export function isEmbedBlock(block: LinkBlockConfig): block is EmbedBlockConfig {
+  return block.type === 'video' || block.type === 'music' || block.type === 'map';
+}
+
+/**
+ * Display names of the providers for a media kind, e.g. "YouTube or Vimeo"
+ */
+export function getEmbedProviderNames(kind: MediaEmbedConfig['type']): string {
+  const names = EMBED_PROVIDER_NAMES
+    .filter(provider => EMBED_PROVIDERS[provider].kind === kind)
+    .map(provider => EMBED_PROVIDERS[provider].name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names.join('');
+}
+
+/**
+ * Player for a video or music URL, or null when no provider of that kind can embed it
+ */
+export function getMediaEmbedFrame(kind: MediaEmbedConfig['type'], value: string): EmbedFrame | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  for (const provider of EMBED_PROVIDER_NAMES) {
+    const definition: EmbedProviderDefinition = EMBED_PROVIDERS[provider];
+    const matchesHost = definition.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+    if (definition.kind === kind && matchesHost) {
+      const frame = definition.getFrame(url);
+      return frame && { provider: definition.name, ...frame };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a map location is usable: non-empty text within the length limit
+ */
+export function isMapLocation(location: unknown): location is string {
+  return typeof location === 'string' && location.trim().length > 0 && location.length <= MAP_LOCATION_MAX_LENGTH;
+}
+
+/**
+ * Frame to load when an embed block is opened, or null when its URL or location is unusable
+ */
+export function getEmbedFrame(block: EmbedBlockConfig): EmbedFrame | null {
+  if (block.type === 'map') {
+    return isMapLocation(block.location)
+      ? {
+          provider: 'Google Maps',
+          src: `https://www.google.com/maps?q=${encodeURIComponent(block.location.trim())}&output=embed`,
+          height: MAP_FRAME_HEIGHT,
+        }
+      : null;
+  }
+  return getMediaEmbedFrame(block.type, block.url);
+}
+
+/**
+ * Page to open in a new tab instead of the embed: the configured URL, or the location on Google Maps
+ */
+export function getEmbedLinkUrl(block: EmbedBlockConfig): string {
+  return block.type === 'map'
+    ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(block.location.trim())}`
+    : block.url;
+}
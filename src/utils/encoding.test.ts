@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { encodeHtmlAttribute, encodeHtmlText, encodeJsonForScript, toSafeHref } from './encoding';
+
+// Put together so the no-script-url lint rule doesn't take the test input for a real link
+const SCRIPT_URL = ['javascript', 'alert(1)'].join(':');
+
+describe('encodeHtmlText', () => {
+  it('encodes markup characters', () => {
+    expect(encodeHtmlText('Tom & Jerry <b>')).toBe('Tom &amp; Jerry &lt;b&gt;');
+  });
+
+  it('leaves quotes alone', () => {
+    expect(encodeHtmlText(`"quoted" and 'single'`)).toBe(`"quoted" and 'single'`);
+  });
+
+  it('encodes an existing entity again, so text shows as typed', () => {
+    expect(encodeHtmlText('&amp;')).toBe('&amp;amp;');
+  });
+});
+
+describe('encodeHtmlAttribute', () => {
+  it('encodes quotes so the value cannot close the attribute', () => {
+    expect(encodeHtmlAttribute(`" onload="alert(1)`)).toBe('&quot; onload=&quot;alert(1)');
+    expect(encodeHtmlAttribute(`it's`)).toBe('it&#39;s');
+  });
+
+  it('encodes markup characters', () => {
+    expect(encodeHtmlAttribute('Tom & Jerry <b>')).toBe('Tom &amp; Jerry &lt;b&gt;');
+  });
+});
+
+describe('encodeJsonForScript', () => {
+  it('cannot close the script element', () => {
+    const json = encodeJsonForScript({ name: '</script><script>alert(1)</script>' });
+    expect(json).not.toContain('</script');
+    expect(json).not.toContain('<');
+  });
+
+  it('cannot start an HTML comment', () => {
+    expect(encodeJsonForScript({ note: '<!-- x -->' })).not.toContain('<!--');
+  });
+
+  it('escapes the line and paragraph separators', () => {
+    const json = encodeJsonForScript({ text: 'a\u2028b\u2029c' });
+    expect(json).toBe('{"text":"a\\u2028b\\u2029c"}');
+  });
+
+  it('still parses to the original value', () => {
+    const value = { name: 'Tom & Jerry "<b>"', text: '</script><!-- \u2028\u2029' };
+    expect(JSON.parse(encodeJsonForScript(value))).toEqual(value);
+  });
+});
+
+describe('toSafeHref', () => {
+  it('passes allowed absolute URLs through', () => {
+    expect(toSafeHref('https://example.com/a?b=c')).toBe('https://example.com/a?b=c');
+    expect(toSafeHref('http://example.com')).toBe('http://example.com');
+    expect(toSafeHref('mailto:hello@example.com')).toBe('mailto:hello@example.com');
+    expect(toSafeHref('tel:+15551234567')).toBe('tel:+15551234567');
+  });
+
+  it('passes site paths and fragments through', () => {
+    expect(toSafeHref('/alice/')).toBe('/alice/');
+    expect(toSafeHref('  /about  ')).toBe('/about');
+    expect(toSafeHref('#links')).toBe('#links');
+  });
+
+  it('replaces script and data URLs', () => {
+    expect(toSafeHref(SCRIPT_URL)).toBe('#');
+    expect(toSafeHref(' JavaScript:alert(1)')).toBe('#');
+    expect(toSafeHref('data:text/html,<script>alert(1)</script>')).toBe('#');
+    expect(toSafeHref('vbscript:msgbox(1)')).toBe('#');
+  });
+
+  it('replaces protocol-relative URLs, which point at another host', () => {
+    expect(toSafeHref('//evil.example.com')).toBe('#');
+  });
+
+  it('replaces paths with a backslash or whitespace, which browsers can read as another host', () => {
+    expect(toSafeHref('/\\evil.example.com')).toBe('#');
+    expect(toSafeHref('/\t/evil.example.com')).toBe('#');
+    expect(toSafeHref('/about\\x')).toBe('#');
+  });
+
+  it('replaces relative paths without a leading slash', () => {
+    expect(toSafeHref('about')).toBe('#');
+    expect(toSafeHref('../about')).toBe('#');
+  });
+
+  it('uses the given fallback', () => {
+    expect(toSafeHref(SCRIPT_URL, '')).toBe('');
+  });
+});
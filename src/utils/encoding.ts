@@ -0,0 +1,70 @@
+/**
+ * Output encoding for LinkTree Modern
+ * Configuration text is kept as the plain string the user wrote. It is encoded where it is
+ * written out, for that context: React escapes text and attributes it renders, and the helpers
+ * here cover the sinks React doesn't, namely HTML assembled as strings, JSON inside <script>
+ * elements and URLs placed in href attributes.
+ */
+
+// Protocols an href may use; anything else (javascript:, data:, vbscript:) is dropped
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Encodes text for the content of an HTML element, e.g. <title>
+ */
+export function encodeHtmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Encodes a value for a quoted HTML attribute, e.g. a meta tag's content
+ */
+export function encodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Serializes JSON for a <script> element (inline configuration, JSON-LD) so that no value can
+ * close the element or start a comment; the escapes are still valid JSON
+ */
+export function encodeJsonForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Whether a URL is a path on this site, e.g. "/alice/". Paths starting with // or /\, or holding
+ * a backslash or whitespace anywhere, are rejected, since browsers can read them as another host.
+ */
+export function isSitePath(url: string): boolean {
+  return /^\/(?![/\\])[^\s\\]*$/.test(url);
+}
+
+/**
+ * URL for an href: absolute http(s), mailto: and tel: URLs, paths on this site and fragments
+ * pass through, anything else is replaced with the fallback
+ */
+export function toSafeHref(url: string, fallback = '#'): string {
+  const trimmed = url.trim();
+  if (isSitePath(trimmed) || trimmed.startsWith('#')) {
+    return trimmed;
+  }
+
+  try {
+    return SAFE_URL_PROTOCOLS.includes(new URL(trimmed).protocol) ? trimmed : fallback;
+  } catch {
+    return fallback;
+  }
+}
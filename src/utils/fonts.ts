@@ -0,0 +1,257 @@
+/**
+ * Font registry and loader for LinkTree Modern
+ * The built-in families are bundled from @fontsource (latin subset, weights 400-700), so no
+ * third-party font service is contacted. Only the selected family is declared and preloaded;
+ * `theme.customFont` replaces it with a font file of your own.
+ */
+
+import interRegular from '@fontsource/inter/files/inter-latin-400-normal.woff2?url';
+import interMedium from '@fontsource/inter/files/inter-latin-500-normal.woff2?url';
+import interSemibold from '@fontsource/inter/files/inter-latin-600-normal.woff2?url';
+import interBold from '@fontsource/inter/files/inter-latin-700-normal.woff2?url';
+import poppinsRegular from '@fontsource/poppins/files/poppins-latin-400-normal.woff2?url';
+import poppinsMedium from '@fontsource/poppins/files/poppins-latin-500-normal.woff2?url';
+import poppinsSemibold from '@fontsource/poppins/files/poppins-latin-600-normal.woff2?url';
+import poppinsBold from '@fontsource/poppins/files/poppins-latin-700-normal.woff2?url';
+import robotoRegular from '@fontsource/roboto/files/roboto-latin-400-normal.woff2?url';
+import robotoMedium from '@fontsource/roboto/files/roboto-latin-500-normal.woff2?url';
+import robotoSemibold from '@fontsource/roboto/files/roboto-latin-600-normal.woff2?url';
+import robotoBold from '@fontsource/roboto/files/roboto-latin-700-normal.woff2?url';
+import montserratRegular from '@fontsource/montserrat/files/montserrat-latin-400-normal.woff2?url';
+import montserratMedium from '@fontsource/montserrat/files/montserrat-latin-500-normal.woff2?url';
+import montserratSemibold from '@fontsource/montserrat/files/montserrat-latin-600-normal.woff2?url';
+import montserratBold from '@fontsource/montserrat/files/montserrat-latin-700-normal.woff2?url';
+import playfairRegular from '@fontsource/playfair-display/files/playfair-display-latin-400-normal.woff2?url';
+import playfairMedium from '@fontsource/playfair-display/files/playfair-display-latin-500-normal.woff2?url';
+import playfairSemibold from '@fontsource/playfair-display/files/playfair-display-latin-600-normal.woff2?url';
+import playfairBold from '@fontsource/playfair-display/files/playfair-display-latin-700-normal.woff2?url';
+import type {
+  CustomFontConfig,
+  FontDefinition,
+  FontFallback,
+  FontFamily,
+  FontLoadStatus,
+  FontWeight,
+  ThemeConfig
+} from '@/types/config';
+
+export const FONT_FAMILIES = {
+  inter: {
+    name: 'Inter',
+    fallback: 'system-ui, sans-serif',
+    files: { 400: interRegular, 500: interMedium, 600: interSemibold, 700: interBold },
+  },
+  poppins: {
+    name: 'Poppins',
+    fallback: 'system-ui, sans-serif',
+    files: { 400: poppinsRegular, 500: poppinsMedium, 600: poppinsSemibold, 700: poppinsBold },
+  },
+  roboto: {
+    name: 'Roboto',
+    fallback: 'system-ui, sans-serif',
+    files: { 400: robotoRegular, 500: robotoMedium, 600: robotoSemibold, 700: robotoBold },
+  },
+  montserrat: {
+    name: 'Montserrat',
+    fallback: 'system-ui, sans-serif',
+    files: { 400: montserratRegular, 500: montserratMedium, 600: montserratSemibold, 700: montserratBold },
+  },
+  playfair: {
+    name: 'Playfair Display',
+    fallback: 'serif',
+    files: { 400: playfairRegular, 500: playfairMedium, 600: playfairSemibold, 700: playfairBold },
+  },
+} satisfies Record<string, FontDefinition>;
+
+/**
+ * Font family identifiers in display order
+ */
+export const FONT_FAMILY_NAMES = Object.keys(FONT_FAMILIES) as FontFamily[];
+
+export const FONT_FALLBACKS: FontFallback[] = ['sans-serif', 'serif', 'monospace'];
+
+// <style> element holding the @font-face rules, written by the pre-renderer and updated in the browser
+export const FONT_FACES_ELEMENT_ID = 'linktree-font-faces';
+
+const FONT_WEIGHTS = Object.keys(FONT_FAMILIES.inter.files).map(Number) as FontWeight[];
+
+// Characters the bundled latin subset files cover
+const LATIN_UNICODE_RANGE = 'U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+0304, ' +
+  'U+0308, U+0329, U+2000-206F, U+20AC, U+2122, U+2191, U+2193, U+2212, U+2215, U+FEFF, U+FFFD';
+
+const FONT_FORMATS: Record<string, { format: string; type: string }> = {
+  woff2: { format: 'woff2', type: 'font/woff2' },
+  woff: { format: 'woff', type: 'font/woff' },
+  ttf: { format: 'truetype', type: 'font/ttf' },
+  otf: { format: 'opentype', type: 'font/otf' },
+};
+
+// Family names end up in CSS, so they are limited to plain words
+const CUSTOM_FONT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,49}$/;
+
+// https:// or a same-site path to a font file, without characters that could end a CSS url() or an HTML attribute
+const CUSTOM_FONT_URL_PATTERN = /^(https:\/\/[A-Za-z0-9.-]+(:\d+)?\/|\/(?!\/))[^\s"'()<>\\;{}?#]*\.(woff2|woff|ttf|otf)(\?[^\s"'()<>\\;{}#]*)?$/i;
+
+interface FontFaceSource {
+  weight: string;
+  url: string;
+  format: string;
+  unicodeRange?: string;
+}
+
+interface ActiveFont {
+  name: string;
+  stack: string;
+  faces: FontFaceSource[];
+  /** File worth fetching before the CSS asks for it: the regular weight */
+  preload: { url: string; type: string };
+}
+
+/**
+ * Whether a value names a bundled font family
+ */
+export function isFontFamily(name: unknown): name is FontFamily {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(FONT_FAMILIES, name);
+}
+
+/**
+ * Whether a custom font name is safe to use as a CSS family name
+ */
+export function isCustomFontName(name: unknown): name is string {
+  return typeof name === 'string' && CUSTOM_FONT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Whether a custom font URL points to a supported font file over HTTPS or on this site
+ */
+export function isCustomFontUrl(url: unknown): url is string {
+  return typeof url === 'string' && CUSTOM_FONT_URL_PATTERN.test(url);
+}
+
+/**
+ * The configured custom font if it is safe to load, otherwise null
+ */
+function getCustomFont(theme: ThemeConfig): Required<CustomFontConfig> | null {
+  const { customFont } = theme;
+  if (!customFont || !isCustomFontName(customFont.name) || !isCustomFontUrl(customFont.url)) {
+    return null;
+  }
+
+  const fallback = customFont.fallback && FONT_FALLBACKS.includes(customFont.fallback) ? customFont.fallback : 'sans-serif';
+  return { name: customFont.name, url: customFont.url, fallback };
+}
+
+/**
+ * Resolves the font the theme renders with: a valid custom font, else the selected family
+ */
+function getActiveFont(theme: ThemeConfig): ActiveFont {
+  const customFont = getCustomFont(theme);
+  if (customFont) {
+    const extension = customFont.url.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+    const { format, type } = FONT_FORMATS[extension];
+    return {
+      name: customFont.name,
+      stack: `"${customFont.name}", ${customFont.fallback === 'sans-serif' ? 'system-ui, sans-serif' : customFont.fallback}`,
+      // A single file serves every weight; variable fonts cover the range, others are synthesized
+      faces: [{ weight: '100 900', url: customFont.url, format }],
+      preload: { url: customFont.url, type },
+    };
+  }
+
+  const family: FontDefinition = FONT_FAMILIES[isFontFamily(theme.fontFamily) ? theme.fontFamily : 'inter'];
+  return {
+    name: family.name,
+    stack: `"${family.name}", ${family.fallback}`,
+    faces: FONT_WEIGHTS.map(weight => ({
+      weight: String(weight),
+      url: family.files[weight],
+      format: 'woff2',
+      unicodeRange: LATIN_UNICODE_RANGE,
+    })),
+    preload: { url: family.files[400], type: 'font/woff2' },
+  };
+}
+
+/**
+ * CSS family name of the theme's font, the key of its FontLoadingState entry
+ */
+export function getFontName(theme: ThemeConfig): string {
+  return getActiveFont(theme).name;
+}
+
+/**
+ * Value for the --font-family variable
+ */
+export function getFontStack(theme: ThemeConfig): string {
+  return getActiveFont(theme).stack;
+}
+
+/**
+ * Font files to preload, with their MIME types
+ */
+export function getFontPreloads(theme: ThemeConfig): { url: string; type: string }[] {
+  return [getActiveFont(theme).preload];
+}
+
+/**
+ * @font-face rules for the theme's font, with font-display: swap so text shows in the
+ * fallback font until the file arrives, and the --font-family variable
+ */
+export function getFontFaceCss(theme: ThemeConfig): string {
+  const font = getActiveFont(theme);
+  const rules = font.faces.map(face => [
+    '@font-face {',
+    `  font-family: "${font.name}";`,
+    '  font-style: normal;',
+    `  font-weight: ${face.weight};`,
+    '  font-display: swap;',
+    `  src: url("${face.url}") format("${face.format}");`,
+    ...(face.unicodeRange ? [`  unicode-range: ${face.unicodeRange};`] : []),
+    '}'
+  ].join('\n'));
+
+  return [...rules, `:root { --font-family: ${font.stack}; }`].join('\n');
+}
+
+/**
+ * Declares the theme's font in the document, preloads it and waits for the regular weight.
+ * Resolves to the load status; fonts that fail to load leave the fallback in place.
+ */
+export async function loadThemeFont(theme: ThemeConfig): Promise<FontLoadStatus> {
+  const font = getActiveFont(theme);
+
+  let style = document.getElementById(FONT_FACES_ELEMENT_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = FONT_FACES_ELEMENT_ID;
+    document.head.appendChild(style);
+  }
+  style.textContent = getFontFaceCss(theme);
+
+  document.querySelectorAll('link[rel="preload"][as="font"]').forEach(link => {
+    if (link.getAttribute('href') !== font.preload.url) {
+      link.remove();
+    }
+  });
+  if (!document.querySelector(`link[rel="preload"][as="font"][href="${CSS.escape(font.preload.url)}"]`)) {
+    const link = document.createElement('link');
+    link.rel = 'preload';
+    link.as = 'font';
+    link.type = font.preload.type;
+    link.href = font.preload.url;
+    link.crossOrigin = 'anonymous';
+    document.head.appendChild(link);
+  }
+
+  if (!document.fonts) {
+    return 'loaded';
+  }
+
+  try {
+    // Resolves without faces when nothing matched, e.g. a file the browser rejected
+    const faces = await document.fonts.load(`400 1em "${font.name}"`);
+    return faces.length > 0 ? 'loaded' : 'error';
+  } catch {
+    return 'error';
+  }
+}
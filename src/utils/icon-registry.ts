@@ -0,0 +1,42 @@
+/**
+ * Lucide icon registry for LinkTree Modern
+ * Only the Lucide icons named in public/config.json and src/config.json are bundled
+ * (scripts/icon-registry.js). A name that only appears in a configuration supplied at runtime,
+ * from the editor or a preview link, isn't in the build and shows a fallback icon instead.
+ */
+
+import type { LucideIcon } from 'lucide-react';
+import LUCIDE_ICONS from 'virtual:icon-registry';
+import { parseLinkIcon } from './link-icons';
+import type { ConfigError, LinkBlockConfig } from '@/types/config';
+
+/**
+ * Bundled Lucide icon for a kebab-case name, if this build has it
+ */
+export function getBundledIcon(name: string): LucideIcon | undefined {
+  return Object.prototype.hasOwnProperty.call(LUCIDE_ICONS, name) ? LUCIDE_ICONS[name] : undefined;
+}
+
+/**
+ * Lucide name a link's icon asks for that this build doesn't have, or null
+ */
+export function getMissingIcon(icon: string | undefined): string | null {
+  const source = icon ? parseLinkIcon(icon) : null;
+  return source?.type === 'lucide' && !getBundledIcon(source.name) ? source.name : null;
+}
+
+/**
+ * Warnings for links whose Lucide icon isn't in the build, keyed by field like validation results
+ */
+export function getMissingIconWarnings(links: LinkBlockConfig[]): ConfigError[] {
+  return links.flatMap((block, index) => {
+    const missing = block.type === undefined || block.type === 'link' ? getMissingIcon(block.icon) : null;
+    return missing
+      ? [{
+          field: `links[${index}].icon`,
+          message: `"${missing}" isn't in this build's icon registry, so a fallback icon shows. ` +
+            'Rebuild the site with this config.json to include it.',
+        }]
+      : [];
+  });
+}
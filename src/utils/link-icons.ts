@@ -0,0 +1,97 @@
+/**
+ * Link icon resolution for LinkTree Modern
+ * A link's `icon` can be an image URL, an emoji, a brand icon or a Lucide icon name.
+ * Icons are tried in order until one renders: the configured icon, the brand icon matching
+ * the link URL, then a generic icon for the URL scheme.
+ */
+
+import type { IconName, LinkConfig, LinkIconSource } from '@/types/config';
+import { getBrandIconForUrl, isBrandIcon } from './brand-icons';
+
+// Lucide export names in kebab-case, e.g. "book-open" for BookOpen
+const ICON_NAME_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+// A single emoji: a flag, or a pictograph with optional variation selector, skin tone and ZWJ sequence
+const EMOJI_PATTERN = /^(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?(?:\u200D\p{Extended_Pictographic}\uFE0F?\p{Emoji_Modifier}?)*)$/u;
+
+// Same-site image path without characters that could break out of an attribute
+const IMAGE_PATH_PATTERN = /^\/(?!\/)[^\s"'<>\\]*\.(png|jpe?g|gif|webp|svg|ico)(\?[^\s"'<>\\]*)?$/i;
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|svg|ico)$/i;
+
+/**
+ * Whether a value is a brand icon or a well-formed Lucide icon name
+ */
+export function isIconName(value: unknown): value is IconName {
+  return isBrandIcon(value) || (typeof value === 'string' && ICON_NAME_PATTERN.test(value));
+}
+
+/**
+ * Whether a value is a single emoji
+ */
+export function isEmojiIcon(value: string): boolean {
+  return EMOJI_PATTERN.test(value);
+}
+
+/**
+ * Whether a value is an image URL usable as an icon: https:// or a path on this site
+ */
+export function isIconImageUrl(value: string): boolean {
+  if (value.startsWith('/')) {
+    return IMAGE_PATH_PATTERN.test(value);
+  }
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && IMAGE_EXTENSION_PATTERN.test(url.pathname) && !/[\s"'<>\\]/.test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Classifies a configured icon value, or returns null when it is none of the supported kinds
+ */
+export function parseLinkIcon(value: string): LinkIconSource | null {
+  const icon = value.trim();
+
+  if (isIconImageUrl(icon)) {
+    return { type: 'image', src: icon };
+  }
+  if (isEmojiIcon(icon)) {
+    return { type: 'emoji', emoji: icon };
+  }
+  if (isBrandIcon(icon)) {
+    return { type: 'brand', name: icon };
+  }
+  if (isIconName(icon)) {
+    return { type: 'lucide', name: icon };
+  }
+  return null;
+}
+
+/**
+ * Icons to try for a link, in order. The last entry is a generic icon that always renders.
+ */
+export function getLinkIconChain(link: Pick<LinkConfig, 'icon' | 'url'>): LinkIconSource[] {
+  const chain: LinkIconSource[] = [];
+
+  const configured = link.icon ? parseLinkIcon(link.icon) : null;
+  if (configured) {
+    chain.push(configured);
+  }
+
+  const brand = getBrandIconForUrl(link.url);
+  if (brand && !(configured?.type === 'brand' && configured.name === brand)) {
+    chain.push({ type: 'brand', name: brand });
+  }
+
+  if (link.url.startsWith('mailto:')) {
+    chain.push({ type: 'default', kind: 'mail' });
+  } else if (link.url.startsWith('tel:')) {
+    chain.push({ type: 'default', kind: 'phone' });
+  } else {
+    chain.push({ type: 'default', kind: 'link' });
+  }
+
+  return chain;
+}
@@ -0,0 +1,96 @@
+/**
+ * Visibility windows for scheduled links
+ * Links with `startsAt`/`endsAt` are shown only between those two instants.
+ */
+
+import type { LinkBlockConfig, LinkConfig, LinkScheduleStatus } from '@/types/config';
+
+// Date-time with a mandatory timezone, e.g. 2025-06-01T09:00:00Z or 2025-06-01T09:00+02:00
+const SCHEDULE_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// setTimeout overflows for delays above a signed 32-bit integer
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Parses a schedule timestamp, returning null when it is not an ISO 8601 timestamp with timezone
+ */
+export function parseScheduleTimestamp(value: unknown): number | null {
+  if (typeof value !== 'string' || !SCHEDULE_TIMESTAMP_PATTERN.test(value)) {
+    return null;
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Whether a block is a link with a visibility window
+ */
+export function isScheduledLink(block: LinkBlockConfig): block is LinkConfig {
+  return (block.type === undefined || block.type === 'link') &&
+    (block.startsAt !== undefined || block.endsAt !== undefined);
+}
+
+/**
+ * Returns where a link is relative to its visibility window, or null when a timestamp is invalid
+ */
+export function getLinkScheduleStatus(
+  link: Pick<LinkConfig, 'startsAt' | 'endsAt'>,
+  now: number = Date.now()
+): LinkScheduleStatus | null {
+  const startTime = link.startsAt !== undefined ? parseScheduleTimestamp(link.startsAt) : undefined;
+  const endTime = link.endsAt !== undefined ? parseScheduleTimestamp(link.endsAt) : undefined;
+
+  if (startTime === null || endTime === null) {
+    return null;
+  }
+
+  if (startTime !== undefined && now < startTime) {
+    return 'upcoming';
+  }
+
+  if (endTime !== undefined && now >= endTime) {
+    return 'expired';
+  }
+
+  return 'active';
+}
+
+/**
+ * Whether a block should be rendered at the given time.
+ * Without a time (e.g. while pre-rendering) scheduled links are left out,
+ * and links with invalid timestamps are never shown.
+ */
+export function isBlockVisibleAt(block: LinkBlockConfig, now: number | null): boolean {
+  if (!block.enabled) {
+    return false;
+  }
+
+  if (!isScheduledLink(block)) {
+    return true;
+  }
+
+  return now !== null && getLinkScheduleStatus(block, now) === 'active';
+}
+
+/**
+ * Milliseconds until the next scheduled link appears or disappears, or null when nothing changes
+ */
+export function getNextScheduleDelay(blocks: LinkBlockConfig[], now: number = Date.now()): number | null {
+  let next: number | null = null;
+
+  for (const block of blocks) {
+    if (!block.enabled || !isScheduledLink(block)) {
+      continue;
+    }
+
+    for (const timestamp of [block.startsAt, block.endsAt]) {
+      const time = parseScheduleTimestamp(timestamp);
+      if (time !== null && time > now && (next === null || time < next)) {
+        next = time;
+      }
+    }
+  }
+
+  return next === null ? null : Math.min(next - now, MAX_TIMER_DELAY);
+}
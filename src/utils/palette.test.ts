@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getBackgroundGradient, getContrastPairs } from './palette';
+import { DEFAULT_CONFIG, mergeConfig, resolveConfig } from './config-loader';
+import type { ThemeConfig } from '@/types/config';
+
+const withTheme = (theme: Record<string, unknown>) => mergeConfig(DEFAULT_CONFIG.theme, theme as Partial<ThemeConfig>);
+
+describe('getBackgroundGradient', () => {
+  it('renders the custom gradient stops', () => {
+    const theme = withTheme({ gradient: { stops: ['#ffffff', '#000000'], angle: 90 } });
+    expect(getBackgroundGradient(theme)).toBe('linear-gradient(90deg, #ffffff 0%, #000000 100%)');
+  });
+
+  it('treats a stop that is not a string as no custom gradient', () => {
+    expect(getBackgroundGradient(withTheme({ gradient: { stops: ['#ffffff', 3] } }))).toBeNull();
+    expect(getBackgroundGradient(withTheme({ gradient: { stops: ['#ffffff', null] } }))).toBeNull();
+  });
+
+  it('checks the page contrast against the default background instead', () => {
+    const pairs = getContrastPairs(withTheme({ gradient: { stops: ['#ffffff', 3] } }), 'light');
+    expect(pairs.find(pair => pair.element === 'page')?.field).toBe('theme.textColor');
+  });
+});
+
+describe('resolveConfig with an invalid gradient', () => {
+  it('falls back instead of throwing', () => {
+    expect(() => resolveConfig({ theme: { gradient: { stops: ['#ffffff', 3 as unknown as string] } } })).not.toThrow();
+  });
+});
+
+describe('resolveConfig with a non-string theme color', () => {
+  it('falls back instead of throwing', () => {
+    expect(() => resolveConfig({ theme: { primaryColor: 5 as unknown as string } })).not.toThrow();
+    expect(() => resolveConfig({ theme: { textColor: 5 as unknown as string } })).not.toThrow();
+  });
+
+  it('leaves the color out of the contrast checks', () => {
+    const pairs = getContrastPairs(withTheme({ primaryColor: 5, textColor: 5 }), 'light');
+    expect(pairs.map(pair => pair.element)).toEqual(['button', 'page']);
+    expect(pairs[0].field).toBe('theme.surfaceColor');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Brand palette utilities for LinkTree Modern
+ * Turns the theme colors into CSS variables: each color, its RGB channels and a generated
+ * tint/shade scale, plus the custom background gradient and the featured button colors.
+ * Also describes which text/background pairs the theme renders, for contrast checks.
+ */
+
+import type {
+  ColorScaleStep,
+  ContrastElement,
+  ContrastPair,
+  PaletteColorName,
+  RgbColor,
+  ThemeConfig
+} from '@/types/config';
+import {
+  WCAG_CONTRAST_RATIOS,
+  getMinimumContrast,
+  getReadableTextColor,
+  mixColors,
+  parseColor,
+  toHexColor
+} from './color';
+
+// Theme field holding each palette color
+export const PALETTE_COLOR_FIELDS = {
+  primary: 'primaryColor',
+  secondary: 'secondaryColor',
+  accent: 'accentColor',
+  text: 'textColor',
+  surface: 'surfaceColor',
+} as const satisfies Record<PaletteColorName, keyof ThemeConfig>;
+
+const PALETTE_COLOR_NAMES = Object.keys(PALETTE_COLOR_FIELDS) as PaletteColorName[];
+
+const WHITE: RgbColor = { r: 255, g: 255, b: 255 };
+const BLACK: RgbColor = { r: 0, g: 0, b: 0 };
+
+// Share of white (tints) or black (shades) mixed into the base color; 500 is the color itself
+const COLOR_SCALE: Record<ColorScaleStep, { mix: RgbColor; weight: number }> = {
+  50: { mix: WHITE, weight: 0.95 },
+  100: { mix: WHITE, weight: 0.9 },
+  200: { mix: WHITE, weight: 0.75 },
+  300: { mix: WHITE, weight: 0.6 },
+  400: { mix: WHITE, weight: 0.3 },
+  500: { mix: WHITE, weight: 0 },
+  600: { mix: BLACK, weight: 0.15 },
+  700: { mix: BLACK, weight: 0.3 },
+  800: { mix: BLACK, weight: 0.45 },
+  900: { mix: BLACK, weight: 0.6 },
+};
+
+const COLOR_SCALE_STEPS = Object.keys(COLOR_SCALE).map(Number) as ColorScaleStep[];
+
+const DEFAULT_GRADIENT_ANGLE = 135;
+
+// Colors globals.css uses when the theme doesn't override them
+const SCHEME_COLORS: Record<'light' | 'dark', { text: string; surface: string; solid: string[]; gradient: string[] }> = {
+  light: {
+    text: '#111827',
+    surface: '#ffffff',
+    solid: ['#ffffff'],
+    gradient: ['#eef2ff', '#ffffff', '#faf5ff'],
+  },
+  dark: {
+    text: '#f3f4f6',
+    surface: '#1f2937',
+    solid: ['#111827'],
+    gradient: ['#111827', '#1f2937', '#1e1b4b'],
+  },
+};
+
+const CONTRAST_ELEMENTS: ContrastElement[] = ['button', 'featured', 'page'];
+
+/**
+ * Every CSS variable getThemeColorVariables can produce, so stale ones can be removed
+ */
+export const THEME_COLOR_VARIABLES: readonly string[] = [
+  ...PALETTE_COLOR_NAMES.flatMap(name => [
+    `--${name}-color`,
+    `--${name}-color-rgb`,
+    ...COLOR_SCALE_STEPS.map(step => `--${name}-${step}`)
+  ]),
+  '--featured-color',
+  '--featured-color-rgb',
+  '--featured-hover-color',
+  ...CONTRAST_ELEMENTS.flatMap(element => [`--${element}-text-light`, `--${element}-text-dark`]),
+  '--background-gradient'
+];
+
+/**
+ * Generates the 50-900 tint/shade scale for a color, as hex values
+ */
+export function generateColorScale(color: RgbColor): Record<ColorScaleStep, string> {
+  const scale = {} as Record<ColorScaleStep, string>;
+  COLOR_SCALE_STEPS.forEach(step => {
+    const { mix, weight } = COLOR_SCALE[step];
+    scale[step] = toHexColor(mixColors(color, mix, weight));
+  });
+  return scale;
+}
+
+/**
+ * Parsed stops of the theme's custom gradient, or null when none is configured or a stop is invalid
+ */
+function getGradientStops(theme: ThemeConfig): RgbColor[] | null {
+  const { gradient } = theme;
+  if (!gradient || !Array.isArray(gradient.stops) || gradient.stops.length < 2) {
+    return null;
+  }
+
+  // Stops come straight from config.json, so a number or null in the list is possible
+  const stops = gradient.stops.map((stop: unknown) => (typeof stop === 'string' ? parseColor(stop) : null));
+  return stops.every(stop => stop !== null) ? (stops as RgbColor[]) : null;
+}
+
+/**
+ * CSS background for the theme's custom gradient, or null when none is configured or a stop is invalid
+ */
+export function getBackgroundGradient(theme: ThemeConfig): string | null {
+  const stops = getGradientStops(theme);
+  if (!stops) {
+    return null;
+  }
+
+  const angle = typeof theme.gradient?.angle === 'number' && Number.isFinite(theme.gradient.angle)
+    ? theme.gradient.angle
+    : DEFAULT_GRADIENT_ANGLE;
+  const positions = stops.map((stop, index) =>
+    `${toHexColor(stop)} ${Math.round((index / (stops.length - 1)) * 100)}%`
+  );
+
+  return `linear-gradient(${angle}deg, ${positions.join(', ')})`;
+}
+
+/**
+ * Background of featured buttons: the accent color, or a shade of the primary color
+ * so white text stays readable on the default palette
+ */
+export function getFeaturedColor(theme: ThemeConfig): RgbColor | null {
+  const accent = theme.accentColor ? parseColor(theme.accentColor) : null;
+  if (accent) {
+    return accent;
+  }
+
+  const primary = parseColor(theme.primaryColor);
+  return primary ? mixColors(primary, BLACK, COLOR_SCALE[600].weight) : null;
+}
+
+/**
+ * Color at the start of the page background, e.g. for splash screens; background images are not considered
+ */
+export function getPageBackgroundColor(theme: ThemeConfig, scheme: 'light' | 'dark'): RgbColor {
+  const defaults = SCHEME_COLORS[scheme];
+  const customGradient = theme.backgroundStyle === 'solid' ? null : getGradientStops(theme);
+  if (customGradient) {
+    return customGradient[0];
+  }
+
+  const stops = theme.backgroundStyle === 'solid' ? defaults.solid : defaults.gradient;
+  return parseColor(stops[0]) as RgbColor;
+}
+
+/**
+ * Text/background pairs the theme renders in a color scheme. Pairs whose colors are
+ * unknown, such as text on a background image, are left out.
+ */
+export function getContrastPairs(theme: ThemeConfig, scheme: 'light' | 'dark'): ContrastPair[] {
+  const defaults = SCHEME_COLORS[scheme];
+  const customText = theme.textColor ? parseColor(theme.textColor) : null;
+  const customSurface = theme.surfaceColor ? parseColor(theme.surfaceColor) : null;
+  const text = customText ?? (parseColor(defaults.text) as RgbColor);
+  const pairs: ContrastPair[] = [
+    {
+      element: 'button',
+      scheme,
+      field: customText ? 'theme.textColor' : 'theme.surfaceColor',
+      foreground: text,
+      backgrounds: [customSurface ?? (parseColor(defaults.surface) as RgbColor)]
+    }
+  ];
+
+  const featured = getFeaturedColor(theme);
+  if (featured) {
+    pairs.push({
+      element: 'featured',
+      scheme,
+      field: theme.accentColor ? 'theme.accentColor' : 'theme.primaryColor',
+      foreground: WHITE,
+      backgrounds: [featured]
+    });
+  }
+
+  if (theme.backgroundStyle !== 'image' || !theme.backgroundImage) {
+    const customGradient = theme.backgroundStyle === 'solid' ? null : getGradientStops(theme);
+    const backgrounds = customGradient ??
+      (theme.backgroundStyle === 'solid' ? defaults.solid : defaults.gradient).map(color => parseColor(color) as RgbColor);
+    pairs.push({
+      element: 'page',
+      scheme,
+      field: customText || !customGradient ? 'theme.textColor' : 'theme.gradient.stops',
+      foreground: text,
+      backgrounds
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * CSS variables for the theme colors. Secondary and accent fall back to the primary color;
+ * text and surface are only set when configured. Invalid colors are left out.
+ * With `autoContrast`, per-scheme text colors are added that swap in white or near-black
+ * wherever the configured text misses the contrast level.
+ */
+export function getThemeColorVariables(theme: ThemeConfig): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const primary = parseColor(theme.primaryColor);
+
+  PALETTE_COLOR_NAMES.forEach(name => {
+    const value = theme[PALETTE_COLOR_FIELDS[name]];
+    const fallback = name === 'secondary' || name === 'accent' ? primary : null;
+    const color = value ? parseColor(value) : fallback;
+    if (!color) {
+      return;
+    }
+
+    variables[`--${name}-color`] = toHexColor(color);
+    variables[`--${name}-color-rgb`] = `${color.r}, ${color.g}, ${color.b}`;
+    const scale = generateColorScale(color);
+    COLOR_SCALE_STEPS.forEach(step => {
+      variables[`--${name}-${step}`] = scale[step];
+    });
+  });
+
+  const featured = getFeaturedColor(theme);
+  if (featured) {
+    variables['--featured-color'] = toHexColor(featured);
+    variables['--featured-color-rgb'] = `${featured.r}, ${featured.g}, ${featured.b}`;
+    variables['--featured-hover-color'] = toHexColor(mixColors(featured, BLACK, COLOR_SCALE[600].weight));
+  }
+
+  if (theme.autoContrast) {
+    const required = WCAG_CONTRAST_RATIOS[theme.contrastLevel ?? 'AA'];
+    (['light', 'dark'] as const).forEach(scheme => {
+      getContrastPairs(theme, scheme).forEach(({ element, foreground, backgrounds }) => {
+        const text = getMinimumContrast(foreground, backgrounds) >= required
+          ? foreground
+          : getReadableTextColor(backgrounds);
+        variables[`--${element}-text-${scheme}`] = toHexColor(text);
+      });
+    });
+  }
+
+  const gradient = getBackgroundGradient(theme);
+  if (gradient) {
+    variables['--background-gradient'] = gradient;
+  }
+
+  return variables;
+}
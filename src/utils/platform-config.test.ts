@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { fromPlatformConfig, toPlatformConfig } from './platform-config';
+import { DEFAULT_CONFIG, mergeConfig } from './config-loader';
+import { validateConfig } from './validation';
+import type { LinkTreeConfig, PlatformSiteConfig } from '@/types/config';
+
+const SITE: PlatformSiteConfig = {
+  templateId: 'linktree-modern',
+  settings: {
+    subdomain: 'alex',
+    title: 'Alex Johnson',
+    description: 'Find all my links in one place',
+  },
+  content: {
+    profile: { name: 'Alex Johnson', bio: 'Photographer', avatar: '/avatar.jpg' },
+    links: [
+      { type: 'heading', text: 'Work' },
+      { type: 'link', title: 'Portfolio', url: 'https://example.com', description: 'Recent *shoots*' },
+      { type: 'divider' },
+    ],
+    footer: { twitter: 'alexj', github: 'alexj' },
+  },
+};
+
+const withLinks = (links: unknown[]) => ({ ...SITE, content: { ...SITE.content, links } });
+const withProfile = (profile: Record<string, string>) => ({ ...SITE, content: { ...SITE.content, profile } });
+
+describe('fromPlatformConfig', () => {
+  it('converts a site into a config that validates', () => {
+    const result = fromPlatformConfig(SITE);
+    expect(result.errors).toEqual([]);
+
+    const config = mergeConfig(DEFAULT_CONFIG, result.config as Partial<LinkTreeConfig>);
+    expect(validateConfig(config).errors).toEqual([]);
+  });
+
+  it('strips the @ from social usernames', () => {
+    const site = { ...SITE, content: { ...SITE.content, footer: { twitter: '@alexj' } } };
+    expect(fromPlatformConfig(site).config.socialMedia).toEqual({ twitter: 'alexj' });
+  });
+
+  it('rejects documents without settings and content', () => {
+    const result = fromPlatformConfig({ content: {} });
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(error => error.field)).toEqual(['content']);
+  });
+
+  it('reports a wrong template ID', () => {
+    const result = fromPlatformConfig({ ...SITE, templateId: 'portfolio' });
+    expect(result.errors.map(error => error.field)).toEqual(['templateId']);
+  });
+
+  it('reports settings that break the manifest pattern', () => {
+    const result = fromPlatformConfig({ ...SITE, settings: { ...SITE.settings, subdomain: 'Alex J' } });
+    expect(result.errors.map(error => error.field)).toEqual(['settings.subdomain']);
+    expect(result.config.seo).toBeUndefined();
+  });
+
+  it('reports each invalid block by index and leaves it out', () => {
+    const result = fromPlatformConfig(withLinks([
+      { type: 'link', title: 'Portfolio', url: 'ftp://example.com/portfolio' },
+      { type: 'heading' },
+      { type: 'gallery' },
+      { type: 'divider' },
+    ]));
+
+    expect(result.errors.map(error => error.field)).toEqual([
+      'content.links[0].url',
+      'content.links[1].text',
+      'content.links[2].type',
+    ]);
+    expect(result.config.links).toEqual([{ type: 'divider', enabled: true }]);
+  });
+
+  it('reports more blocks than the slot allows', () => {
+    const links = Array.from({ length: 21 }, () => ({ type: 'divider' }));
+    expect(fromPlatformConfig(withLinks(links)).errors.map(error => error.field)).toEqual(['content.links']);
+  });
+
+  it('holds text to the config limits, which are tighter than the manifest', () => {
+    const result = fromPlatformConfig(withLinks([
+      { type: 'link', title: 'x'.repeat(51), url: 'https://example.com' },
+      { type: 'link', title: 'Portfolio', url: 'https://example.com', description: 'x'.repeat(101) },
+      { type: 'heading', text: 'x'.repeat(51) },
+    ]));
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'content.links[0].title', message: 'title must be 50 characters or less' }),
+      expect.objectContaining({ field: 'content.links[1].description', message: 'description must be 100 characters or less' }),
+      expect.objectContaining({ field: 'content.links[2].text', message: 'text must be 50 characters or less' }),
+    ]);
+  });
+
+  it('reports the manifest limit when text is past both', () => {
+    const result = fromPlatformConfig(withProfile({ name: 'x'.repeat(101) }));
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'content.profile.name', message: 'name must be 100 characters or less' }),
+    ]);
+  });
+
+  it('measures bios without their formatting markup', () => {
+    const bio = `**${'x'.repeat(160)}**`;
+    expect(fromPlatformConfig(withProfile({ name: 'Alex', bio })).errors).toEqual([]);
+    expect(fromPlatformConfig(withProfile({ name: 'Alex', bio: `${bio}!` })).errors.map(error => error.field))
+      .toEqual(['content.profile.bio']);
+  });
+
+  it('warns about fields the manifest does not declare', () => {
+    const result = fromPlatformConfig(withProfile({ name: 'Alex', website: 'https://example.com' }));
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.map(warning => warning.field)).toEqual(['content.profile.website']);
+  });
+});
+
+describe('toPlatformConfig', () => {
+  it('round-trips a site through LinkTreeConfig', () => {
+    const config = mergeConfig(DEFAULT_CONFIG, fromPlatformConfig(SITE).config as Partial<LinkTreeConfig>);
+    expect(toPlatformConfig(config, SITE.settings)).toEqual(SITE);
+  });
+
+  it('leaves disabled blocks out and turns embeds into links', () => {
+    const config = mergeConfig(DEFAULT_CONFIG, {
+      links: [
+        { type: 'divider', enabled: false },
+        { type: 'video', title: 'Trailer', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', enabled: true },
+      ],
+    } as Partial<LinkTreeConfig>);
+
+    expect(toPlatformConfig(config, SITE.settings).content.links).toEqual([
+      { type: 'link', title: 'Trailer', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' },
+    ]);
+  });
+});
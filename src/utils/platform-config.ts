@@ -0,0 +1,311 @@
+/**
+ * Platform configuration adapter for LinkTree Modern
+ * Translates the slot/component format of site.config.json into LinkTreeConfig and back
+ */
+
+import type {
+  LinkTreeConfig,
+  LinkBlockConfig,
+  SocialMediaConfig,
+  ConfigError,
+  PlatformSiteConfig,
+  PlatformSettings,
+  PlatformContentBlock,
+  PlatformFieldRule,
+  PlatformConversionResult,
+  DeepPartial
+} from '@/types/config';
+import templateManifest from '../../template.config.json';
+import {
+  HEADING_TEXT_MAX_LENGTH,
+  LINK_DESCRIPTION_MAX_LENGTH,
+  LINK_TITLE_MAX_LENGTH,
+  PROFILE_BIO_MAX_LENGTH,
+  PROFILE_NAME_MAX_LENGTH,
+  validateLinkUrl
+} from './validation';
+import { getEmbedLinkUrl } from './embeds';
+import { getRichTextPlainText } from './rich-text';
+
+// Constraints declared by the template manifest
+const COMPONENT_RULES = templateManifest.components as Record<string, Record<string, PlatformFieldRule>>;
+const SETTINGS_RULES = templateManifest.settings as Record<string, PlatformFieldRule>;
+const LINKS_SLOT = templateManifest.slots.links;
+const SOCIAL_LINKS_COMPONENT = 'social-links';
+
+// validateConfig allows less text than the manifest; converted fields are held to its limits too
+interface ConfigTextLimit {
+  maxLength: number;
+  richText?: boolean;
+}
+
+const CONFIG_TEXT_LIMITS: Record<string, Record<string, ConfigTextLimit>> = {
+  profile: {
+    name: { maxLength: PROFILE_NAME_MAX_LENGTH },
+    bio: { maxLength: PROFILE_BIO_MAX_LENGTH, richText: true }
+  },
+  link: {
+    title: { maxLength: LINK_TITLE_MAX_LENGTH },
+    description: { maxLength: LINK_DESCRIPTION_MAX_LENGTH, richText: true }
+  },
+  heading: {
+    text: { maxLength: HEADING_TEXT_MAX_LENGTH }
+  }
+};
+
+/**
+ * Checks whether a parsed JSON document uses the platform site format
+ */
+export function isPlatformConfig(value: unknown): value is PlatformSiteConfig {
+  return isObject(value) && isObject(value.content) && isObject(value.settings);
+}
+
+/**
+ * Converts a platform site configuration into a partial LinkTreeConfig.
+ * Blocks that violate the manifest constraints are reported and left out.
+ */
+export function fromPlatformConfig(site: unknown): PlatformConversionResult {
+  const errors: ConfigError[] = [];
+  const warnings: ConfigError[] = [];
+  const config: DeepPartial<LinkTreeConfig> = {};
+
+  if (!isPlatformConfig(site)) {
+    errors.push({ field: 'content', message: 'Platform configuration must contain settings and content objects' });
+    return { isValid: false, errors, warnings, config };
+  }
+
+  if (site.templateId !== templateManifest.templateId) {
+    errors.push({
+      field: 'templateId',
+      message: `Template ID must be "${templateManifest.templateId}"`,
+      value: site.templateId
+    });
+  }
+
+  // Settings map onto SEO metadata
+  if (checkFields(site.settings, SETTINGS_RULES, 'settings', errors, warnings)) {
+    config.seo = {};
+    if (site.settings.title) {
+      config.seo.title = site.settings.title;
+    }
+    if (site.settings.description) {
+      config.seo.description = site.settings.description;
+    }
+  }
+
+  // Profile slot
+  const { profile, links, footer } = site.content;
+  if (profile !== undefined) {
+    if (!isObject(profile)) {
+      errors.push({ field: 'content.profile', message: 'Profile must be an object', value: profile });
+    } else if (checkFields(profile, COMPONENT_RULES.profile, 'content.profile', errors, warnings, CONFIG_TEXT_LIMITS.profile)) {
+      config.profile = {};
+      if (profile.name) config.profile.name = profile.name;
+      if (profile.bio) config.profile.bio = profile.bio;
+      if (profile.avatar) config.profile.avatar = profile.avatar;
+    }
+  }
+
+  // Links slot
+  if (!Array.isArray(links)) {
+    errors.push({ field: 'content.links', message: 'Links are required and must be an array', value: links });
+  } else {
+    if (links.length > LINKS_SLOT.max) {
+      errors.push({
+        field: 'content.links',
+        message: `Maximum ${LINKS_SLOT.max} blocks allowed`,
+        value: links.length
+      });
+    }
+
+    config.links = links
+      .map((block, index) => convertBlock(block, `content.links[${index}]`, errors, warnings))
+      .filter((block): block is LinkBlockConfig => block !== null);
+  }
+
+  // Footer slot carries social media usernames
+  if (footer !== undefined) {
+    if (!isObject(footer)) {
+      errors.push({ field: 'content.footer', message: 'Footer must be an object', value: footer });
+    } else if (checkFields(footer, COMPONENT_RULES[SOCIAL_LINKS_COMPONENT], 'content.footer', errors, warnings)) {
+      const socialMedia: Record<string, string> = {};
+      Object.keys(COMPONENT_RULES[SOCIAL_LINKS_COMPONENT]).forEach(platform => {
+        const username = footer[platform];
+        if (username) {
+          socialMedia[platform] = username.replace(/^@/, '');
+        }
+      });
+      config.socialMedia = socialMedia as SocialMediaConfig;
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+    config
+  };
+}
+
+/**
+ * Converts a LinkTreeConfig back into the platform site format
+ */
+export function toPlatformConfig(config: LinkTreeConfig, settings: PlatformSettings): PlatformSiteConfig {
+  const footer: Record<string, string> = {};
+  Object.keys(COMPONENT_RULES[SOCIAL_LINKS_COMPONENT]).forEach(platform => {
+    const username = config.socialMedia[platform as keyof SocialMediaConfig];
+    if (username) {
+      footer[platform] = username;
+    }
+  });
+
+  const links: PlatformContentBlock[] = config.links
+    .filter(block => block.enabled)
+    .map((block): PlatformContentBlock => {
+      switch (block.type) {
+        case 'heading':
+          return { type: 'heading', text: block.text };
+        case 'divider':
+          return { type: 'divider' };
+        // The platform format has no embeds; they become links to the video, track or map
+        case 'video':
+        case 'music':
+        case 'map':
+          return {
+            type: 'link',
+            title: block.title,
+            url: getEmbedLinkUrl(block),
+            ...(block.description && { description: block.description })
+          };
+        default:
+          return {
+            type: 'link',
+            title: block.title,
+            url: block.url,
+            ...(block.description && { description: block.description })
+          };
+      }
+    });
+
+  return {
+    templateId: templateManifest.templateId,
+    settings: {
+      ...settings,
+      title: config.seo.title,
+      description: config.seo.description
+    },
+    content: {
+      profile: {
+        name: config.profile.name,
+        bio: config.profile.bio,
+        avatar: config.profile.avatar
+      },
+      links,
+      ...(Object.keys(footer).length > 0 && { footer })
+    }
+  };
+}
+
+/**
+ * Converts a single links-slot block, returning null when it cannot be rendered
+ */
+function convertBlock(
+  block: unknown,
+  prefix: string,
+  errors: ConfigError[],
+  warnings: ConfigError[]
+): LinkBlockConfig | null {
+  if (!isObject(block) || typeof block.type !== 'string') {
+    errors.push({ field: `${prefix}.type`, message: 'Block type is required', value: block });
+    return null;
+  }
+
+  if (!LINKS_SLOT.accepts.includes(block.type)) {
+    errors.push({
+      field: `${prefix}.type`,
+      message: `Block type must be one of: ${LINKS_SLOT.accepts.join(', ')}`,
+      value: block.type
+    });
+    return null;
+  }
+
+  if (!checkFields(block, COMPONENT_RULES[block.type], prefix, errors, warnings, CONFIG_TEXT_LIMITS[block.type])) {
+    return null;
+  }
+
+  switch (block.type) {
+    case 'heading':
+      return { type: 'heading', text: block.text, enabled: true };
+    case 'divider':
+      return { type: 'divider', enabled: true };
+    default:
+      return {
+        type: 'link',
+        title: block.title,
+        url: block.url,
+        description: typeof block.description === 'string' ? block.description : '',
+        enabled: true,
+        newTab: true,
+        featured: false
+      };
+  }
+}
+
+/**
+ * Checks an object against manifest field rules and the config's text limits, returning false
+ * if any field failed
+ */
+function checkFields(
+  value: Record<string, any>,
+  rules: Record<string, PlatformFieldRule>,
+  prefix: string,
+  errors: ConfigError[],
+  warnings: ConfigError[],
+  textLimits: Record<string, ConfigTextLimit> = {}
+): boolean {
+  const errorCount = errors.length;
+
+  Object.entries(rules).forEach(([key, rule]) => {
+    const field = `${prefix}.${key}`;
+    const fieldValue = value[key];
+
+    if (fieldValue === undefined || fieldValue === '') {
+      if (rule.required) {
+        errors.push({ field, message: `${key} is required` });
+      }
+      return;
+    }
+
+    if (typeof fieldValue !== 'string') {
+      errors.push({ field, message: `${key} must be a string`, value: fieldValue });
+      return;
+    }
+
+    const textLimit = textLimits[key];
+    if (rule.maxLength !== undefined && fieldValue.length > rule.maxLength) {
+      errors.push({ field, message: `${key} must be ${rule.maxLength} characters or less`, value: fieldValue });
+    } else if (textLimit && (textLimit.richText ? getRichTextPlainText(fieldValue) : fieldValue).length > textLimit.maxLength) {
+      errors.push({ field, message: `${key} must be ${textLimit.maxLength} characters or less`, value: fieldValue });
+    }
+
+    if (rule.type === 'url' && !validateLinkUrl(fieldValue)) {
+      errors.push({ field, message: `${key} must be a valid URL`, value: fieldValue });
+    }
+
+    if (rule.pattern && !new RegExp(rule.pattern).test(fieldValue)) {
+      errors.push({ field, message: `${key} does not match the required format`, value: fieldValue });
+    }
+  });
+
+  Object.keys(value).forEach(key => {
+    if (key !== 'type' && !(key in rules)) {
+      warnings.push({ field: `${prefix}.${key}`, message: `Unknown field "${key}" was ignored` });
+    }
+  });
+
+  return errors.length === errorCount;
+}
+
+function isObject(item: unknown): item is Record<string, any> {
+  return !!item && typeof item === 'object' && !Array.isArray(item);
+}
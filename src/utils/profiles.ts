@@ -0,0 +1,104 @@
+/**
+ * Multiple profiles for LinkTree Modern
+ * One configuration document can describe several pages: the top level is the home page and the
+ * settings every profile shares, and `profiles` maps a path such as "alice" to the overrides for
+ * that person's page. Routes are matched against paths relative to the base URL.
+ */
+
+import { EDITOR_PATH } from './config-editor';
+import { mergeConfig, resolveConfig } from './config-loader';
+import type { AppRoute, ConfigDocument, DeepPartial, LinkTreeConfig, ProfilesConfig } from '@/types/config';
+
+// Lowercase letters, digits and single dashes, so the slug is also a safe directory name
+const PROFILE_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const PROFILE_SLUG_MAX_LENGTH = 64;
+
+// Paths the deployment already uses for something else
+const RESERVED_PATHS = new Set([EDITOR_PATH, 'assets', '404']);
+
+export const NOT_FOUND_TITLE = 'Page not found';
+
+/**
+ * Whether a profile key can be used as a page path
+ */
+export function isProfileSlug(slug: string): boolean {
+  return slug.length <= PROFILE_SLUG_MAX_LENGTH && PROFILE_SLUG_PATTERN.test(slug) && !RESERVED_PATHS.has(slug);
+}
+
+/**
+ * Profiles of the document with a usable slug; entries that aren't objects are left out
+ */
+export function getProfiles(document: ConfigDocument): ProfilesConfig {
+  const profiles: ProfilesConfig = {};
+  const entries = document.profiles && typeof document.profiles === 'object' ? Object.entries(document.profiles) : [];
+
+  for (const [slug, profile] of entries) {
+    if (isProfileSlug(slug) && profile && typeof profile === 'object' && !Array.isArray(profile)) {
+      profiles[slug] = profile;
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Slugs of the document's profiles, in document order
+ */
+export function getProfileSlugs(document: ConfigDocument): string[] {
+  return Object.keys(getProfiles(document));
+}
+
+/**
+ * Profile keys that get no page: the key can't be used as a page path or the entry isn't an object
+ */
+export function getInvalidProfileSlugs(document: ConfigDocument): string[] {
+  const profiles = getProfiles(document);
+  const keys = document.profiles && typeof document.profiles === 'object' ? Object.keys(document.profiles) : [];
+  return keys.filter(slug => !Object.prototype.hasOwnProperty.call(profiles, slug));
+}
+
+/**
+ * Page for a path relative to the base URL, e.g. "" for the home page or "alice"
+ */
+export function matchRoute(path: string, document: ConfigDocument): AppRoute {
+  if (path === '') {
+    return { type: 'home' };
+  }
+  if (Object.prototype.hasOwnProperty.call(getProfiles(document), path)) {
+    return { type: 'profile', slug: path };
+  }
+  return { type: 'not-found' };
+}
+
+/**
+ * Stable key for a route, e.g. "profile:alice"; the pre-renderer records it on the page
+ */
+export function getRouteKey(route: AppRoute): string {
+  return route.type === 'profile' ? `profile:${route.slug}` : route.type;
+}
+
+/**
+ * Unresolved configuration for a route: the shared configuration with the profile's overrides
+ * merged over it. Objects are merged and lists such as links are replaced, as with the defaults.
+ */
+export function getRouteConfig(document: ConfigDocument, route: AppRoute): DeepPartial<LinkTreeConfig> {
+  const { profiles: _profiles, ...shared } = document;
+
+  if (route.type !== 'profile') {
+    return shared;
+  }
+  return mergeConfig(shared, getProfiles(document)[route.slug] ?? {});
+}
+
+/**
+ * Resolved configuration for a route. The not-found page keeps the shared theme and says what
+ * it is in the title.
+ */
+export function resolveRouteConfig(document: ConfigDocument, route: AppRoute): LinkTreeConfig {
+  const config = resolveConfig(getRouteConfig(document, route));
+
+  if (route.type !== 'not-found') {
+    return config;
+  }
+  return mergeConfig(config, { seo: { title: `${NOT_FOUND_TITLE} | ${config.seo.title}` } });
+}
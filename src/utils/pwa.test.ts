@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildWebAppManifest, getPWAIconSources, getPrecacheUrls } from './pwa';
+import { DEFAULT_CONFIG, mergeConfig, resolveConfig } from './config-loader';
+import { validateConfig } from './validation';
+
+describe('icon sources', () => {
+  it('accept an avatar and favicon served from this site', () => {
+    const config = mergeConfig(DEFAULT_CONFIG, { profile: { avatar: '/avatar.jpg' }, seo: { favicon: '/favicon.png' } });
+    expect(validateConfig(config).errors).toEqual([]);
+  });
+});
+
+describe('buildWebAppManifest', () => {
+  it('lists the rendered 192 and 512 PNG icons with their sizes', () => {
+    const { icons } = buildWebAppManifest(resolveConfig({ profile: { avatar: '/avatar.jpg' } }));
+    expect(icons.filter(icon => icon.type === 'image/png')).toEqual([
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'any' },
+    ]);
+  });
+
+  it('declares "any" size only for an SVG favicon', () => {
+    const svg = buildWebAppManifest(resolveConfig({ profile: { avatar: '/avatar.jpg' } }));
+    expect(svg.icons.filter(icon => icon.sizes === 'any')).toEqual([
+      { src: '/favicon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+    ]);
+
+    const raster = buildWebAppManifest(resolveConfig({ profile: { avatar: '/avatar.jpg' }, seo: { favicon: '/favicon.png' } }));
+    expect(raster.icons.some(icon => icon.sizes === 'any')).toBe(false);
+  });
+});
+
+describe('getPWAIconSources', () => {
+  it('prefers the avatar, then the favicon', () => {
+    const config = resolveConfig({ profile: { avatar: '/avatar.jpg' }, seo: { favicon: '/favicon.png' } });
+    expect(getPWAIconSources(config)).toEqual(['/avatar.jpg', '/favicon.png', '/favicon.svg']);
+  });
+});
+
+describe('getPrecacheUrls', () => {
+  it('caches the app icons', () => {
+    expect(getPrecacheUrls(resolveConfig({ profile: { avatar: '/avatar.jpg' } }))).toEqual(
+      expect.arrayContaining(['/icons/icon-192.png', '/icons/icon-512.png'])
+    );
+  });
+});
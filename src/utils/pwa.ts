@@ -0,0 +1,146 @@
+/**
+ * Progressive Web App support for LinkTree Modern
+ * Builds the web app manifest from the configuration and keeps the service worker
+ * registration in line with `advanced.enablePWA`.
+ */
+
+import type {
+  LinkTreeConfig,
+  PWADisplayMode,
+  PWAOrientation,
+  WebAppManifest,
+  WebAppManifestIcon
+} from '@/types/config';
+import { parseColor, toHexColor } from './color';
+import { getFontPreloads } from './fonts';
+import { getPageBackgroundColor } from './palette';
+
+export const MANIFEST_URL = '/site.webmanifest';
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// Prefix of the caches public/sw.js creates; keep the two in sync
+export const PWA_CACHE_PREFIX = 'linktree-';
+
+export const PWA_DISPLAY_MODES: PWADisplayMode[] = ['standalone', 'minimal-ui', 'fullscreen', 'browser'];
+export const PWA_ORIENTATIONS: PWAOrientation[] = ['any', 'portrait', 'landscape'];
+
+// Longer names are cut off under home screen icons
+export const PWA_SHORT_NAME_MAX_LENGTH = 12;
+
+// Square PNG app icons the build renders (scripts/app-icons.js); browsers offer install with 192 and 512
+export const PWA_ICON_SIZES = [192, 512];
+
+const DEFAULT_FAVICON = '/favicon.svg';
+
+/**
+ * Normalizes a configured color to hex, or returns null when it can't be parsed
+ */
+function toManifestColor(color: string | undefined): string | null {
+  const parsed = color ? parseColor(color) : null;
+  return parsed ? toHexColor(parsed) : null;
+}
+
+/**
+ * URL of the app icon the build renders at a size, e.g. "/icons/icon-192.png"
+ */
+export function getPWAIconUrl(size: number): string {
+  return `/icons/icon-${size}.png`;
+}
+
+/**
+ * Images the app icons are rendered from, in order of preference: the avatar, then the favicon
+ */
+export function getPWAIconSources(config: LinkTreeConfig): string[] {
+  return Array.from(new Set([config.profile.avatar, config.seo.favicon, DEFAULT_FAVICON].filter((src): src is string => Boolean(src))));
+}
+
+/**
+ * App name shown under the home screen icon
+ */
+export function getPWAShortName(config: LinkTreeConfig): string {
+  return config.advanced.pwa?.shortName || config.profile.name;
+}
+
+/**
+ * Builds the web app manifest. Unset PWA fields fall back to the SEO title and description,
+ * the profile name, the primary color and the page background.
+ */
+export function buildWebAppManifest(config: LinkTreeConfig): WebAppManifest {
+  const { profile, seo, theme } = config;
+  const pwa = config.advanced.pwa ?? {};
+  const scheme = theme.colorScheme === 'dark' ? 'dark' : 'light';
+
+  const icons: WebAppManifestIcon[] = PWA_ICON_SIZES.map(size => ({
+    src: getPWAIconUrl(size),
+    sizes: `${size}x${size}`,
+    type: 'image/png',
+    purpose: 'any',
+  }));
+  // An SVG favicon scales to any size; raster images only appear as the rendered PNGs above
+  const favicon = seo.favicon || DEFAULT_FAVICON;
+  if (/\.svg$/i.test(favicon.split(/[?#]/)[0])) {
+    icons.push({ src: favicon, sizes: 'any', type: 'image/svg+xml', purpose: 'any' });
+  }
+
+  return {
+    name: pwa.name || seo.title || profile.name,
+    short_name: getPWAShortName(config),
+    description: pwa.description || seo.description,
+    start_url: '/',
+    scope: '/',
+    display: pwa.display && PWA_DISPLAY_MODES.includes(pwa.display) ? pwa.display : 'standalone',
+    orientation: pwa.orientation && PWA_ORIENTATIONS.includes(pwa.orientation) ? pwa.orientation : 'any',
+    theme_color: toManifestColor(pwa.themeColor) ?? toManifestColor(theme.primaryColor) ?? '#6366f1',
+    background_color: toManifestColor(pwa.backgroundColor) ?? toHexColor(getPageBackgroundColor(theme, scheme)),
+    lang: 'en',
+    icons,
+  };
+}
+
+/**
+ * URLs the service worker caches on install so the page opens offline: the page itself,
+ * its configuration and manifest, the app icons, the theme font, and the avatar and favicon images
+ */
+export function getPrecacheUrls(config: LinkTreeConfig): string[] {
+  const urls = [
+    '/',
+    '/config.json',
+    MANIFEST_URL,
+    ...PWA_ICON_SIZES.map(getPWAIconUrl),
+    config.seo.favicon || DEFAULT_FAVICON,
+    ...getFontPreloads(config.theme).map(preload => preload.url)
+  ];
+  if (config.profile.avatar) {
+    urls.push(config.profile.avatar);
+  }
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Registers the service worker when PWA support is on, and removes it and its caches
+ * when it has been turned off. The dev server never registers one, so edits aren't served from cache.
+ */
+export async function syncServiceWorker(enabled: boolean): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  try {
+    if (enabled && !import.meta.env.DEV) {
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      return;
+    }
+
+    const registration = await navigator.serviceWorker.getRegistration('/');
+    if (registration) {
+      await registration.unregister();
+    }
+
+    if (typeof caches !== 'undefined') {
+      const names = await caches.keys();
+      await Promise.all(names.filter(name => name.startsWith(PWA_CACHE_PREFIX)).map(name => caches.delete(name)));
+    }
+  } catch {
+    // Service workers need HTTPS and may be blocked (e.g. private browsing); the page works without one
+  }
+}
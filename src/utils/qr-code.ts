@@ -0,0 +1,87 @@
+/**
+ * QR codes for LinkTree Modern
+ * Generated in the browser, so shared URLs are never sent to a QR code service. Only the
+ * share sheet imports this module, which keeps the encoder out of the main bundle.
+ */
+
+import qrcode from 'qrcode-generator';
+import type { QrCodeImage } from '@/types/config';
+import { getDownloadFileName } from './download';
+
+// Light modules around the code that scanners need to find it
+const QR_QUIET_ZONE = 4;
+
+// Pixels per module in downloaded PNGs
+const QR_PNG_SCALE = 10;
+
+/**
+ * QR code for a URL, or null when it is too long to encode. Expects an absolute URL as
+ * returned by getShareUrl, which is ASCII, so byte mode encodes it unchanged.
+ */
+export function createQrCode(url: string): QrCodeImage | null {
+  const code = qrcode(0, 'M');
+  try {
+    code.addData(url);
+    code.make();
+  } catch {
+    return null;
+  }
+
+  const count = code.getModuleCount();
+  const path: string[] = [];
+  for (let row = 0; row < count; row++) {
+    // One rectangle per run of dark modules in the row
+    for (let col = 0; col < count; col++) {
+      if (!code.isDark(row, col)) {
+        continue;
+      }
+      const start = col;
+      while (col + 1 < count && code.isDark(row, col + 1)) {
+        col++;
+      }
+      const run = col - start + 1;
+      path.push(`M${start + QR_QUIET_ZONE} ${row + QR_QUIET_ZONE}h${run}v1h-${run}z`);
+    }
+  }
+
+  return { size: count + QR_QUIET_ZONE * 2, path: path.join('') };
+}
+
+/**
+ * Standalone SVG document for a QR code, dark on light regardless of the page theme
+ */
+export function getQrCodeSvg(image: QrCodeImage): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${image.size} ${image.size}" shape-rendering="crispEdges">`,
+    `<rect width="${image.size}" height="${image.size}" fill="#ffffff"/>`,
+    `<path d="${image.path}" fill="#000000"/>`,
+    '</svg>'
+  ].join('');
+}
+
+/**
+ * PNG of a QR code, or null when the browser cannot produce one
+ */
+export function getQrCodePng(image: QrCodeImage): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = image.size * QR_PNG_SCALE;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.resolve(null);
+  }
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(QR_PNG_SCALE, QR_PNG_SCALE);
+  context.fillStyle = '#000000';
+  context.fill(new Path2D(image.path));
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+}
+
+/**
+ * File name for a downloaded QR code, e.g. "qr-my-portfolio.svg"
+ */
+export function getQrCodeFileName(title: string, extension: 'svg' | 'png'): string {
+  return getDownloadFileName(`qr ${title}`, extension);
+}
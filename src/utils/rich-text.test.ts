@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getRichTextPlainText, parseRichText } from './rich-text';
+
+describe('parseRichText', () => {
+  it('parses bold and italic', () => {
+    expect(parseRichText('**bold** and *italic* and _italic_')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'em', children: [{ type: 'text', text: 'italic' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'em', children: [{ type: 'text', text: 'italic' }] },
+    ]);
+  });
+
+  it('needs the text inside markers to start and end without a space', () => {
+    expect(parseRichText('** not bold**')).toEqual([{ type: 'text', text: '** not bold**' }]);
+    expect(parseRichText('*not italic *')).toEqual([{ type: 'text', text: '*not italic *' }]);
+    expect(parseRichText('2 * 3 * 4')).toEqual([{ type: 'text', text: '2 * 3 * 4' }]);
+  });
+
+  it('nests italic inside bold', () => {
+    expect(parseRichText('**a *b* c**')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'a ' },
+          { type: 'em', children: [{ type: 'text', text: 'b' }] },
+          { type: 'text', text: ' c' },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps underscores inside words as text', () => {
+    expect(parseRichText('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+    expect(parseRichText('x_a_ and _b_c')).toEqual([{ type: 'text', text: 'x_a_ and _b_c' }]);
+  });
+
+  it('finds _italic_ after a word that ends in an underscore', () => {
+    expect(parseRichText('a_ _b_')).toEqual([
+      { type: 'text', text: 'a_ ' },
+      { type: 'em', children: [{ type: 'text', text: 'b' }] },
+    ]);
+  });
+
+  it('parses mentions but not email addresses', () => {
+    expect(parseRichText('Ask @alice.b today')).toEqual([
+      { type: 'text', text: 'Ask ' },
+      { type: 'mention', handle: 'alice.b' },
+      { type: 'text', text: ' today' },
+    ]);
+    expect(parseRichText('hello@example.com')).toEqual([{ type: 'text', text: 'hello@example.com' }]);
+    expect(parseRichText('a.@b @@c')).toEqual([{ type: 'text', text: 'a.@b @@c' }]);
+  });
+
+  it('keeps links only for safe URLs', () => {
+    expect(parseRichText('[Shop](https://shop.example.com)')).toEqual([
+      { type: 'link', href: 'https://shop.example.com', text: 'Shop' },
+    ]);
+    expect(parseRichText('[x](javascript:void)')).toEqual([{ type: 'text', text: '[x](javascript:void)' }]);
+  });
+
+  it('parses line breaks and escaped markers', () => {
+    expect(parseRichText('a\r\nb \\*c\\*')).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'break' },
+      { type: 'text', text: 'b *c*' },
+    ]);
+  });
+});
+
+describe('getRichTextPlainText', () => {
+  it('drops the markup', () => {
+    expect(getRichTextPlainText('**Hi** _there_ @alice\n[site](/about)')).toBe('Hi there @alice\nsite');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Markdown-lite formatting for LinkTree Modern
+ * Bios and descriptions support **bold**, *italic* or _italic_, [links](https://example.com),
+ * line breaks and @mentions. Anything else stays literal text; a backslash escapes a marker.
+ * The parser only produces nodes, so the text never reaches the page as HTML.
+ */
+
+import type { RichTextNode, SocialMediaConfig } from '@/types/config';
+import { toSafeHref } from './encoding';
+import { SOCIAL_PLATFORM_IDS, getSocialUrl } from './social-platforms';
+
+// Bold and italic may nest, but not indefinitely
+const MAX_NESTING_DEPTH = 3;
+
+// Alternatives in order of precedence; each has its own capture groups, read in parseRichText.
+// No lookbehind: Safari only supports it from 16.4. The character before _italic_ and @mention
+// is checked in parseRichText instead.
+const INLINE_PATTERN = new RegExp([
+  /\\([\\*_[\]()@])/.source,                                                  // 1: escaped marker
+  /\*\*(?=\S)([\s\S]*?\S)\*\*/.source,                                        // 2: **bold**
+  /\*(?=[^\s*])([^*]*?[^\s*])\*/.source,                                      // 3: *italic*
+  /_(?=[^\s_])([^_]*?[^\s_])_(?![A-Za-z0-9])/.source,                          // 4: _italic_
+  /\[([^\]\n]+)\]\(([^()\s]+)\)/.source,                                      // 5, 6: [label](url)
+  /@([A-Za-z0-9_](?:[A-Za-z0-9_.]{0,28}[A-Za-z0-9_])?)/.source,                // 7: @mention
+  /(\r?\n)/.source                                                            // 8: line break
+].join('|'), 'g');
+
+// Characters that may not come right before the opening marker: snake_case and
+// email@example.com are plain text
+const WORD_BEFORE_UNDERSCORE = /[A-Za-z0-9]/;
+const WORD_BEFORE_MENTION = /[A-Za-z0-9_.@]/;
+
+/**
+ * Parses markdown-lite text into nodes. Links are kept only for http(s), mailto: and tel: URLs
+ * and paths on this site; other link syntax stays literal text.
+ */
+export function parseRichText(text: string, depth = 0): RichTextNode[] {
+  const nodes: RichTextNode[] = [];
+  // A copy per call, since nested calls would otherwise share lastIndex
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (value: string) => {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else if (value) {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [source, escaped, bold, italic, underscoreItalic, label, href, handle, lineBreak] = match;
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    const before = text.charAt(match.index - 1);
+    if (
+      (underscoreItalic !== undefined && WORD_BEFORE_UNDERSCORE.test(before)) ||
+      (handle !== undefined && WORD_BEFORE_MENTION.test(before))
+    ) {
+      // Not a marker here: keep its first character as text and look again from the next one
+      pushText(source.charAt(0));
+      lastIndex = pattern.lastIndex = match.index + 1;
+    } else if (escaped !== undefined) {
+      pushText(escaped);
+    } else if ((bold ?? italic ?? underscoreItalic) !== undefined && depth >= MAX_NESTING_DEPTH) {
+      pushText(source);
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'strong', children: parseRichText(bold, depth + 1) });
+    } else if ((italic ?? underscoreItalic) !== undefined) {
+      nodes.push({ type: 'em', children: parseRichText(italic ?? underscoreItalic, depth + 1) });
+    } else if (label !== undefined) {
+      if (toSafeHref(href, '')) {
+        nodes.push({ type: 'link', href, text: label });
+      } else {
+        pushText(source);
+      }
+    } else if (handle !== undefined) {
+      nodes.push({ type: 'mention', handle });
+    } else if (lineBreak !== undefined) {
+      nodes.push({ type: 'break' });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+}
+
+/**
+ * Text as it reads once rendered, without the markup
+ */
+export function getRichTextPlainText(value: string | RichTextNode[]): string {
+  const nodes = typeof value === 'string' ? parseRichText(value) : value;
+
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'link':
+        return node.text;
+      case 'strong':
+      case 'em':
+        return getRichTextPlainText(node.children);
+      case 'mention':
+        return `@${node.handle}`;
+      case 'break':
+        return '\n';
+    }
+  }).join('');
+}
+
+/**
+ * Profile URL for a mention of one of the page's own social accounts, or null for other handles
+ */
+export function getMentionUrl(handle: string, socialMedia: SocialMediaConfig): string | null {
+  const normalized = handle.toLowerCase();
+  const platform = SOCIAL_PLATFORM_IDS.find(id => {
+    const username = socialMedia[id];
+    return username !== undefined && username.replace(/^@/, '').toLowerCase() === normalized;
+  });
+
+  return platform ? getSocialUrl(platform, socialMedia[platform] ?? '') : null;
+}
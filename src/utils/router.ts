@@ -0,0 +1,73 @@
+/**
+ * Client-side routing for LinkTree Modern
+ * Pages are identified by their path below the base URL. Moving between pages of the site
+ * updates the history and notifies listeners with a popstate event, like the back button does.
+ */
+
+import type { AppRoute } from '@/types/config';
+
+/**
+ * Path below the base URL without surrounding slashes or a trailing index.html,
+ * e.g. "/alice/" → "alice" and "/" → ""
+ */
+export function getRoutePath(pathname: string, base: string = import.meta.env.BASE_URL): string {
+  const path = pathname.startsWith(base) ? pathname.slice(base.length) : pathname;
+
+  return path
+    .replace(/(^|\/)index\.html$/, '')
+    .replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * URL path a route is served from, e.g. "/alice/"; the not-found page is the host's 404.html
+ */
+export function getRouteUrl(route: AppRoute, base: string = import.meta.env.BASE_URL): string {
+  if (route.type === 'profile') {
+    return `${base}${route.slug}/`;
+  }
+  return route.type === 'not-found' ? `${base}404.html` : base;
+}
+
+/**
+ * Absolute URL of a route's page on the site, e.g. "https://links.example.com/alice/",
+ * or undefined when no site URL is configured
+ */
+export function getCanonicalUrl(
+  route: AppRoute,
+  siteUrl: string | undefined,
+  base: string = import.meta.env.BASE_URL
+): string | undefined {
+  return siteUrl ? new URL(getRouteUrl(route, base), siteUrl).href : undefined;
+}
+
+/**
+ * Route path of the current page
+ */
+export function getCurrentRoutePath(): string {
+  return getRoutePath(window.location.pathname);
+}
+
+/**
+ * Route path an href points to when it is a page of this site, otherwise null.
+ * Links to a fragment of the current page are left to the browser.
+ */
+export function getSiteRoutePath(href: string): string | null {
+  try {
+    const url = new URL(href, window.location.href);
+    if (url.origin !== window.location.origin || url.hash) {
+      return null;
+    }
+    return getRoutePath(url.pathname);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Adds the href to the history and shows it from the top of the page
+ */
+export function navigateTo(href: string): void {
+  window.history.pushState(null, '', href);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.scrollTo(0, 0);
+}
@@ -0,0 +1,78 @@
+/**
+ * Sharing for LinkTree Modern
+ * The share sheet hands the page or a link to the Web Share API where the browser has one and
+ * copies it to the clipboard otherwise. QR codes come from qr-code.ts.
+ */
+
+import type { ShareResult, ShareTarget } from '@/types/config';
+
+/**
+ * Whether a configured link can be shared: an http(s) URL or a path on this site
+ */
+export function isShareableUrl(url: string): boolean {
+  const value = url.trim();
+  return /^https?:\/\//i.test(value) || /^\/(?!\/)/.test(value);
+}
+
+/**
+ * Absolute URL to share for a page path or link, resolved against the current page.
+ * Only http(s) URLs can be shared; mailto:, tel: and the like return null.
+ */
+export function getShareUrl(url: string): string | null {
+  try {
+    const resolved = new URL(url, window.location.href);
+    return resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL of the current page without its query string or fragment
+ */
+export function getPageShareUrl(): string {
+  return `${window.location.origin}${window.location.pathname}`;
+}
+
+/**
+ * Whether the browser can open its share dialog for the target
+ */
+export function canUseWebShare(target: ShareTarget): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.share !== 'function') {
+    return false;
+  }
+  return typeof navigator.canShare !== 'function' || navigator.canShare(target);
+}
+
+/**
+ * Opens the browser's share dialog, falling back to copying the URL when there is none
+ * or the browser refuses to share
+ */
+export async function shareOrCopy(target: ShareTarget): Promise<ShareResult> {
+  if (!canUseWebShare(target)) {
+    return copyShareUrl(target.url);
+  }
+
+  try {
+    await navigator.share({ title: target.title, url: target.url });
+    return 'shared';
+  } catch (error) {
+    // AbortError: the visitor closed the dialog
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return 'cancelled';
+    }
+    return copyShareUrl(target.url);
+  }
+}
+
+/**
+ * Copies a URL to the clipboard
+ */
+export async function copyShareUrl(url: string): Promise<ShareResult> {
+  try {
+    await navigator.clipboard.writeText(url);
+    return 'copied';
+  } catch {
+    return 'failed';
+  }
+}
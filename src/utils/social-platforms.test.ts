@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import schema from '../../config.schema.json';
+import { SOCIAL_PLATFORMS, SOCIAL_PLATFORM_IDS } from './social-platforms';
+
+// The schema is maintained by hand; these keep it in step with the registry
+const schemaPlatforms = schema.properties.socialMedia.properties as Record<string, { title: string; pattern: string }>;
+
+describe('config.schema.json socialMedia', () => {
+  it('lists every registered platform, in registry order', () => {
+    expect(Object.keys(schemaPlatforms)).toEqual(SOCIAL_PLATFORM_IDS);
+  });
+
+  it('accepts the same usernames as the registry', () => {
+    SOCIAL_PLATFORM_IDS.forEach(platform => {
+      expect(schemaPlatforms[platform].pattern, platform).toBe(SOCIAL_PLATFORMS[platform].pattern.source);
+    });
+  });
+
+  it('names each platform as the registry does', () => {
+    SOCIAL_PLATFORM_IDS.forEach(platform => {
+      expect(schemaPlatforms[platform].title, platform).toContain(SOCIAL_PLATFORMS[platform].name);
+    });
+  });
+});
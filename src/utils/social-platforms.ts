@@ -0,0 +1,196 @@
+/**
+ * Social platform registry for LinkTree Modern
+ * Each entry drives the config type, username validation, profile URLs, icons and display names.
+ * Adding a platform only needs a new entry here.
+ */
+
+import {
+  AtSign,
+  Facebook,
+  Ghost,
+  Github,
+  Instagram,
+  Linkedin,
+  MessageCircle,
+  MessageSquare,
+  Music,
+  Phone,
+  Pin,
+  Send,
+  ShieldCheck,
+  Twitch,
+  Twitter,
+  Youtube
+} from 'lucide-react';
+import type { SocialPlatform, SocialPlatformDefinition } from '@/types/config';
+
+const withoutAt = (username: string) => username.replace(/^@/, '');
+
+export const SOCIAL_PLATFORMS = {
+  twitter: {
+    name: 'Twitter/X',
+    icon: Twitter,
+    pattern: /^@?[A-Za-z0-9_]{1,15}$/,
+    example: 'yourhandle',
+    buildUrl: (username) => `https://twitter.com/${withoutAt(username)}`,
+  },
+  instagram: {
+    name: 'Instagram',
+    icon: Instagram,
+    pattern: /^@?[A-Za-z0-9_.]{1,30}$/,
+    example: 'yourhandle',
+    buildUrl: (username) => `https://instagram.com/${withoutAt(username)}`,
+  },
+  github: {
+    name: 'GitHub',
+    icon: Github,
+    pattern: /^[A-Za-z0-9-]{1,39}$/,
+    example: 'yourusername',
+    buildUrl: (username) => `https://github.com/${username}`,
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    icon: Linkedin,
+    pattern: /^[A-Za-z0-9-]{3,100}$/,
+    example: 'your-name',
+    buildUrl: (username) => `https://linkedin.com/in/${username}`,
+  },
+  youtube: {
+    name: 'YouTube',
+    icon: Youtube,
+    // Channel ID (UC...) or @handle
+    pattern: /^(UC[A-Za-z0-9_-]{22}|@?[A-Za-z0-9_.-]{3,30})$/,
+    example: 'yourchannel',
+    buildUrl: (username) => /^UC[A-Za-z0-9_-]{22}$/.test(username)
+      ? `https://youtube.com/channel/${username}`
+      : `https://youtube.com/@${withoutAt(username)}`,
+  },
+  tiktok: {
+    name: 'TikTok',
+    icon: Music,
+    pattern: /^@?[A-Za-z0-9_.]{1,24}$/,
+    example: 'yourhandle',
+    buildUrl: (username) => `https://tiktok.com/@${withoutAt(username)}`,
+  },
+  discord: {
+    name: 'Discord',
+    icon: MessageCircle,
+    // Invite code or full invite link
+    pattern: /^(https:\/\/(discord\.gg|discord\.com\/invite)\/)?[A-Za-z0-9-]{2,32}$/,
+    example: 'invitecode',
+    buildUrl: (username) => username.startsWith('https://') ? username : `https://discord.gg/${username}`,
+  },
+  twitch: {
+    name: 'Twitch',
+    icon: Twitch,
+    pattern: /^[A-Za-z0-9_]{4,25}$/,
+    example: 'yourchannel',
+    buildUrl: (username) => `https://twitch.tv/${username}`,
+  },
+  facebook: {
+    name: 'Facebook',
+    icon: Facebook,
+    pattern: /^[A-Za-z0-9.]{5,50}$/,
+    example: 'your.page',
+    buildUrl: (username) => `https://facebook.com/${username}`,
+  },
+  snapchat: {
+    name: 'Snapchat',
+    icon: Ghost,
+    pattern: /^[A-Za-z][A-Za-z0-9._-]{2,14}$/,
+    example: 'yourname',
+    buildUrl: (username) => `https://snapchat.com/add/${username}`,
+  },
+  pinterest: {
+    name: 'Pinterest',
+    icon: Pin,
+    pattern: /^[A-Za-z0-9_]{3,30}$/,
+    example: 'yourname',
+    buildUrl: (username) => `https://pinterest.com/${username}`,
+  },
+  reddit: {
+    name: 'Reddit',
+    icon: MessageSquare,
+    pattern: /^(u\/)?[A-Za-z0-9_-]{3,20}$/,
+    example: 'yourname',
+    buildUrl: (username) => `https://reddit.com/user/${username.replace(/^u\//, '')}`,
+  },
+  telegram: {
+    name: 'Telegram',
+    icon: Send,
+    pattern: /^@?[A-Za-z][A-Za-z0-9_]{4,31}$/,
+    example: 'yourname',
+    buildUrl: (username) => `https://t.me/${withoutAt(username)}`,
+  },
+  whatsapp: {
+    name: 'WhatsApp',
+    icon: Phone,
+    // Phone number in international format
+    pattern: /^\+?[1-9][0-9]{6,14}$/,
+    example: '+15551234567',
+    buildUrl: (username) => `https://wa.me/${username.replace(/^\+/, '')}`,
+  },
+  signal: {
+    name: 'Signal',
+    icon: ShieldCheck,
+    // Phone number in international format, or a signal.me link shared from the app
+    pattern: /^(\+[1-9][0-9]{6,14}|https:\/\/signal\.me\/#(eu|p)\/[A-Za-z0-9_+-]{1,200})$/,
+    example: '+15551234567',
+    buildUrl: (username) => username.startsWith('https://') ? username : `https://signal.me/#p/${username}`,
+  },
+  mastodon: {
+    name: 'Mastodon',
+    icon: AtSign,
+    // Fediverse handle: @user@instance
+    pattern: /^@?[A-Za-z0-9_]{1,30}@([A-Za-z0-9-]{1,63}\.)+[A-Za-z]{2,63}$/,
+    example: '@you@mastodon.social',
+    buildUrl: (username) => {
+      const [user, instance] = withoutAt(username).split('@');
+      return `https://${instance.toLowerCase()}/@${user}`;
+    },
+  },
+  threads: {
+    name: 'Threads',
+    icon: AtSign,
+    pattern: /^@?[A-Za-z0-9_.]{1,30}$/,
+    example: 'yourhandle',
+    buildUrl: (username) => `https://threads.net/@${withoutAt(username)}`,
+  },
+} satisfies Record<string, SocialPlatformDefinition>;
+
+/**
+ * Platform identifiers in display order
+ */
+export const SOCIAL_PLATFORM_IDS = Object.keys(SOCIAL_PLATFORMS) as SocialPlatform[];
+
+/**
+ * Whether a key is a known social platform
+ */
+export function isSocialPlatform(platform: string): platform is SocialPlatform {
+  return Object.prototype.hasOwnProperty.call(SOCIAL_PLATFORMS, platform);
+}
+
+/**
+ * Returns the registry entry for a platform, or undefined for unknown platforms
+ */
+export function getSocialPlatform(platform: string): SocialPlatformDefinition | undefined {
+  return isSocialPlatform(platform) ? SOCIAL_PLATFORMS[platform] : undefined;
+}
+
+/**
+ * Builds the profile URL for a username, or null when the platform is unknown or the username is invalid
+ */
+export function getSocialUrl(platform: string, username: string): string | null {
+  const definition = getSocialPlatform(platform);
+  if (!definition || !definition.pattern.test(username)) {
+    return null;
+  }
+  return definition.buildUrl(username);
+}
+
+/**
+ * Human-readable platform name
+ */
+export function getPlatformDisplayName(platform: string): string {
+  return getSocialPlatform(platform)?.name ?? platform;
+}
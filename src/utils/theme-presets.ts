@@ -0,0 +1,99 @@
+/**
+ * Theme preset registry for LinkTree Modern
+ * A preset supplies a complete set of theme values; `theme.preset` in the config selects one
+ * and any theme fields set alongside it override the preset.
+ */
+
+import type { ThemePreset, ThemePresetName } from '@/types/config';
+
+export const THEME_PRESETS = {
+  minimal: {
+    name: 'Minimal',
+    description: 'Quiet monochrome look with square buttons and no motion',
+    config: {
+      colorScheme: 'light',
+      primaryColor: '#111827',
+      backgroundStyle: 'solid',
+      fontFamily: 'inter',
+      buttonStyle: 'square',
+      buttonAnimation: 'none',
+      showBorder: true,
+    },
+    preview: 'linear-gradient(135deg, #ffffff 0%, #e5e7eb 100%)',
+  },
+  neon: {
+    name: 'Neon',
+    description: 'Dark background with a glowing magenta accent',
+    config: {
+      colorScheme: 'dark',
+      primaryColor: '#ec4899',
+      backgroundStyle: 'gradient',
+      fontFamily: 'montserrat',
+      buttonStyle: 'pill',
+      buttonAnimation: 'glow',
+      showBorder: true,
+    },
+    preview: 'linear-gradient(135deg, #0f172a 0%, #ec4899 100%)',
+  },
+  pastel: {
+    name: 'Pastel',
+    description: 'Soft violet gradient with rounded, friendly type',
+    config: {
+      colorScheme: 'light',
+      primaryColor: '#a78bfa',
+      backgroundStyle: 'gradient',
+      fontFamily: 'poppins',
+      buttonStyle: 'pill',
+      buttonAnimation: 'lift',
+      showBorder: false,
+    },
+    preview: 'linear-gradient(135deg, #fdf2f8 0%, #ddd6fe 100%)',
+  },
+  corporate: {
+    name: 'Corporate',
+    description: 'Neutral blue palette that follows the system color scheme',
+    config: {
+      colorScheme: 'auto',
+      primaryColor: '#2563eb',
+      backgroundStyle: 'solid',
+      fontFamily: 'roboto',
+      buttonStyle: 'rounded',
+      buttonAnimation: 'scale',
+      showBorder: true,
+    },
+    preview: 'linear-gradient(135deg, #f8fafc 0%, #2563eb 100%)',
+  },
+  brutalist: {
+    name: 'Brutalist',
+    description: 'High-contrast serif headings and hard-edged buttons',
+    config: {
+      colorScheme: 'light',
+      primaryColor: '#000000',
+      backgroundStyle: 'solid',
+      fontFamily: 'playfair',
+      buttonStyle: 'square',
+      buttonAnimation: 'lift',
+      showBorder: true,
+    },
+    preview: 'linear-gradient(135deg, #fef08a 0%, #000000 100%)',
+  },
+} satisfies Record<string, ThemePreset>;
+
+/**
+ * Preset identifiers in display order
+ */
+export const THEME_PRESET_NAMES = Object.keys(THEME_PRESETS) as ThemePresetName[];
+
+/**
+ * Whether a value names a known theme preset
+ */
+export function isThemePreset(name: unknown): name is ThemePresetName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(THEME_PRESETS, name);
+}
+
+/**
+ * Returns the registry entry for a preset, or undefined for unknown or missing names
+ */
+export function getThemePreset(name: unknown): ThemePreset | undefined {
+  return isThemePreset(name) ? THEME_PRESETS[name] : undefined;
+}
@@ -2,7 +2,52 @@
  * Input validation and sanitization utilities for security
  */
 
-import type { LinkTreeConfig, ConfigError, ValidationResult } from '@/types/config';
+import type {
+  LinkTreeConfig,
+  AdvancedConfig,
+  LinkBlockConfig,
+  LinkBlockType,
+  LinkConfig,
+  SocialMediaConfig,
+  AnalyticsTransportType,
+  ConfigError,
+  ContrastElement,
+  ContrastLevel,
+  ContrastPair,
+  CustomFontConfig,
+  EmbedBlockConfig,
+  GradientConfig,
+  ProfileContactConfig,
+  ValidationResult
+} from '@/types/config';
+import { WCAG_CONTRAST_RATIOS, getMinimumContrast, parseColor } from './color';
+import { parseScheduleTimestamp } from './link-schedule';
+import { isSitePath } from './encoding';
+import { EMBED_KINDS, MAP_LOCATION_MAX_LENGTH, getEmbedProviderNames, getMediaEmbedFrame, isMapLocation } from './embeds';
+import { FONT_FALLBACKS, FONT_FAMILY_NAMES, isCustomFontName, isCustomFontUrl, isFontFamily } from './fonts';
+import { parseLinkIcon } from './link-icons';
+import { getRichTextPlainText } from './rich-text';
+import { getContrastPairs } from './palette';
+import { PWA_DISPLAY_MODES, PWA_ORIENTATIONS, PWA_SHORT_NAME_MAX_LENGTH, getPWAShortName } from './pwa';
+import { getSocialPlatform, isSocialPlatform } from './social-platforms';
+import { THEME_PRESET_NAMES, isThemePreset } from './theme-presets';
+import { CONTACT_TEXT_MAX_LENGTH, isContactEmail, isContactPhone } from './vcard';
+
+// Text limits; bios and descriptions are measured without their formatting markup
+export const PROFILE_NAME_MAX_LENGTH = 50;
+export const PROFILE_BIO_MAX_LENGTH = 160;
+export const HEADING_TEXT_MAX_LENGTH = 50;
+export const LINK_TITLE_MAX_LENGTH = 50;
+export const LINK_DESCRIPTION_MAX_LENGTH = 100;
+
+const LINK_BLOCK_TYPES: LinkBlockType[] = ['link', 'heading', 'divider', ...EMBED_KINDS];
+const ANALYTICS_TRANSPORTS: AnalyticsTransportType[] = ['beacon', 'localStorage', 'console'];
+const CONTRAST_LEVELS: ContrastLevel[] = ['AA', 'AAA'];
+const CONTRAST_ELEMENT_LABELS: Record<ContrastElement, string> = {
+  button: 'Link button text',
+  featured: 'Featured button text',
+  page: 'Profile text on the page background',
+};
 
 /**
  * Validate URL format and security
@@ -33,9 +78,22 @@ export function validateUrl(url: string): boolean {
 }
 
 /**
- * Validate image URL format and security
+ * Validate a link button URL: an allowed absolute URL or a path on this site, e.g. "/alice/"
+ */
+export function validateLinkUrl(url: string): boolean {
+  return isSitePath(url) || validateUrl(url);
+}
+
+/**
+ * Validate image URL format and security: an http(s) URL or a path on this site, e.g. "/avatar.jpg"
  */
 export function validateImageUrl(url: string): boolean {
+  // Check for valid image extensions
+  const imageExtensions = /\.(jpg|jpeg|png|gif|webp|svg)(\?.*)?$/i;
+  if (isSitePath(url)) {
+    return imageExtensions.test(url);
+  }
+  
   if (!validateUrl(url)) {
     return false;
   }
@@ -45,25 +103,17 @@ export function validateImageUrl(url: string): boolean {
     return false;
   }
   
-  // Check for valid image extensions
-  const imageExtensions = /\.(jpg|jpeg|png|gif|webp|svg)(\?.*)?$/i;
   return imageExtensions.test(url);
 }
 
 /**
- * Sanitize text input to prevent XSS
+ * Normalize configuration text. The text stays plain: it is encoded for HTML, JSON or URLs
+ * where it is written out (see encoding.ts), so "Tom & Jerry" renders as typed.
  */
 export function sanitizeText(text: string): string {
   if (!text) return '';
   
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#x27;')
-    .replace(/\//g, '&#x2F;')
-    .trim();
+  return text.trim();
 }
 
 /**
@@ -80,23 +130,25 @@ export function validateFacebookPixelId(id: string): boolean {
   return /^[0-9]{15,16}$/.test(id);
 }
 
+/**
+ * Validate analytics endpoint: HTTPS URL or same-origin path
+ */
+export function validateAnalyticsEndpoint(endpoint: string): boolean {
+  if (endpoint.startsWith('/') && !endpoint.startsWith('//')) {
+    return !/[\s<>"]/.test(endpoint);
+  }
+  
+  return validateUrl(endpoint) && endpoint.startsWith('https://');
+}
+
 /**
  * Validate social media username patterns
  */
 export function validateSocialMediaUsername(platform: string, username: string): boolean {
   if (!username) return true; // Optional field
   
-  const patterns: Record<string, RegExp> = {
-    twitter: /^[A-Za-z0-9_]{1,15}$/,
-    instagram: /^[A-Za-z0-9_.]{1,30}$/,
-    github: /^[A-Za-z0-9-]{1,39}$/,
-    linkedin: /^[A-Za-z0-9-]{3,100}$/,
-    tiktok: /^[A-Za-z0-9_.]{1,24}$/,
-    twitch: /^[A-Za-z0-9_]{4,25}$/,
-  };
-  
-  const pattern = patterns[platform];
-  return pattern ? pattern.test(username) : true;
+  const definition = getSocialPlatform(platform);
+  return definition ? definition.pattern.test(username) : false;
 }
 
 /**
@@ -106,6 +158,196 @@ export function validateHexColor(color: string): boolean {
   return /^#[0-9A-Fa-f]{6}$/.test(color);
 }
 
+/**
+ * Validate a color in hex, rgb() or hsl() notation
+ */
+export function validateColor(color: string): boolean {
+  return typeof color === 'string' && parseColor(color) !== null;
+}
+
+/**
+ * Validate a custom background gradient: two or more valid color stops and an angle in degrees
+ */
+function validateGradient(gradient: GradientConfig, errors: ConfigError[]): void {
+  // An empty list means no custom gradient
+  if (!Array.isArray(gradient.stops) || gradient.stops.length === 1) {
+    errors.push({ field: 'theme.gradient.stops', message: 'Gradient needs at least two color stops' });
+  } else {
+    gradient.stops.forEach((stop, index) => {
+      if (!validateColor(stop)) {
+        errors.push({
+          field: `theme.gradient.stops[${index}]`,
+          message: 'Invalid color format (use hex, rgb() or hsl())'
+        });
+      }
+    });
+  }
+  
+  if (gradient.angle !== undefined &&
+      (typeof gradient.angle !== 'number' || !Number.isFinite(gradient.angle) || gradient.angle < 0 || gradient.angle > 360)) {
+    errors.push({ field: 'theme.gradient.angle', message: 'Gradient angle must be between 0 and 360 degrees' });
+  }
+}
+
+/**
+ * Validate a custom font: its name and URL end up in CSS, so both are restricted to safe characters
+ */
+function validateCustomFont(customFont: CustomFontConfig, errors: ConfigError[]): void {
+  if (!isCustomFontName(customFont.name)) {
+    errors.push({
+      field: 'theme.customFont.name',
+      message: 'Font name is required and may only contain letters, digits, spaces, hyphens and underscores (max 50)'
+    });
+  }
+  
+  if (!isCustomFontUrl(customFont.url)) {
+    errors.push({
+      field: 'theme.customFont.url',
+      message: 'Font URL must be an https:// URL or a path starting with / ending in .woff2, .woff, .ttf or .otf'
+    });
+  }
+  
+  if (customFont.fallback !== undefined && !FONT_FALLBACKS.includes(customFont.fallback)) {
+    errors.push({ field: 'theme.customFont.fallback', message: `Fallback must be one of: ${FONT_FALLBACKS.join(', ')}` });
+  }
+}
+
+/**
+ * Report text/background pairs below the theme's WCAG contrast level in every color scheme visitors can see
+ */
+function validateThemeContrast(config: LinkTreeConfig, warnings: ConfigError[]): void {
+  const { theme } = config;
+  const level = theme.contrastLevel ?? 'AA';
+  const required = WCAG_CONTRAST_RATIOS[level];
+  const schemes: ('light' | 'dark')[] =
+    (theme.colorScheme === 'light' || theme.colorScheme === 'dark') && !config.advanced.enableDarkMode
+      ? [theme.colorScheme]
+      : ['light', 'dark'];
+  
+  // The same failure in both schemes is reported once
+  const failures = new Map<string, { pair: ContrastPair; ratio: number; schemes: string[] }>();
+  schemes.forEach(scheme => {
+    getContrastPairs(theme, scheme).forEach(pair => {
+      const ratio = Math.floor(getMinimumContrast(pair.foreground, pair.backgrounds) * 100) / 100;
+      if (ratio >= required) {
+        return;
+      }
+      const key = `${pair.element}:${ratio}`;
+      const failure = failures.get(key);
+      if (failure) {
+        failure.schemes.push(scheme);
+      } else {
+        failures.set(key, { pair, ratio, schemes: [scheme] });
+      }
+    });
+  });
+  
+  failures.forEach(({ pair, ratio, schemes: failedSchemes }) => {
+    warnings.push({
+      field: pair.field,
+      message: `${CONTRAST_ELEMENT_LABELS[pair.element]} has a contrast ratio of ${ratio.toFixed(2)}:1 ` +
+        `in ${failedSchemes.join(' and ')} mode; WCAG ${level} requires ${required}:1` +
+        (theme.autoContrast ? ' (text color is adjusted automatically)' : '')
+    });
+  });
+}
+
+/**
+ * Validate a link's visibility window: timestamps must carry a timezone and end after they start
+ */
+function validateLinkSchedule(
+  link: LinkConfig,
+  prefix: string,
+  errors: ConfigError[],
+  warnings: ConfigError[]
+): void {
+  const startTime = link.startsAt !== undefined ? parseScheduleTimestamp(link.startsAt) : undefined;
+  const endTime = link.endsAt !== undefined ? parseScheduleTimestamp(link.endsAt) : undefined;
+  
+  if (startTime === null) {
+    errors.push({
+      field: `${prefix}.startsAt`,
+      message: 'Start time must be an ISO 8601 timestamp with timezone (e.g. 2025-06-01T09:00:00Z)'
+    });
+  }
+  
+  if (endTime === null) {
+    errors.push({
+      field: `${prefix}.endsAt`,
+      message: 'End time must be an ISO 8601 timestamp with timezone (e.g. 2025-06-30T23:59:59+02:00)'
+    });
+  }
+  
+  if (typeof startTime === 'number' && typeof endTime === 'number' && endTime <= startTime) {
+    errors.push({ field: `${prefix}.endsAt`, message: 'End time must be after start time' });
+  } else if (typeof endTime === 'number' && endTime <= Date.now()) {
+    warnings.push({ field: `${prefix}.endsAt`, message: 'Link has expired and is no longer shown' });
+  }
+}
+
+/**
+ * Validate the contact details for the "Save contact" card
+ */
+function validateContact(contact: ProfileContactConfig, errors: ConfigError[]): void {
+  (contact.emails ?? []).filter(email => !isContactEmail(email)).forEach(email => {
+    errors.push({ field: 'profile.contact.emails', message: `"${email}" is not a valid email address` });
+  });
+  
+  (contact.phones ?? []).filter(phone => !isContactPhone(phone)).forEach(phone => {
+    errors.push({
+      field: 'profile.contact.phones',
+      message: `"${phone}" is not a valid phone number; use digits, spaces, dashes and an optional leading +`
+    });
+  });
+  
+  (['organization', 'title'] as const).forEach(key => {
+    const value = contact[key];
+    if (value && value.length > CONTACT_TEXT_MAX_LENGTH) {
+      errors.push({ field: `profile.contact.${key}`, message: `Must be ${CONTACT_TEXT_MAX_LENGTH} characters or less` });
+    }
+  });
+  
+  if (contact.website && (!validateUrl(contact.website) || !/^https?:\/\//.test(contact.website))) {
+    errors.push({ field: 'profile.contact.website', message: 'Website must be an http(s) URL' });
+  }
+}
+
+/**
+ * Validate a video, music or map block: video and music URLs must be pages a provider can embed
+ */
+function validateEmbed(block: EmbedBlockConfig, prefix: string, errors: ConfigError[]): void {
+  if (!block.title || block.title.length === 0) {
+    errors.push({ field: `${prefix}.title`, message: 'Title is required' });
+  }
+  
+  if (block.title && block.title.length > 50) {
+    errors.push({ field: `${prefix}.title`, message: 'Title must be 50 characters or less' });
+  }
+  
+  if (block.description && getRichTextPlainText(block.description).length > 100) {
+    errors.push({ field: `${prefix}.description`, message: 'Description must be 100 characters or less' });
+  }
+  
+  if (block.type === 'map') {
+    if (!isMapLocation(block.location)) {
+      errors.push({
+        field: `${prefix}.location`,
+        message: `Map location is required and must be ${MAP_LOCATION_MAX_LENGTH} characters or less`
+      });
+    }
+    return;
+  }
+  
+  if (!block.url || !validateUrl(block.url) || !getMediaEmbedFrame(block.type, block.url)) {
+    errors.push({
+      field: `${prefix}.url`,
+      message: block.type === 'video'
+        ? `Video URL must be a ${getEmbedProviderNames('video')} link to a video or playlist`
+        : `Music URL must be a ${getEmbedProviderNames('music')} link to a track, album or playlist`
+    });
+  }
+}
+
 /**
  * Validate complete configuration object
  */
@@ -118,12 +360,13 @@ export function validateConfig(config: LinkTreeConfig): ValidationResult {
     errors.push({ field: 'profile.name', message: 'Name is required' });
   }
   
-  if (config.profile.name && config.profile.name.length > 50) {
-    errors.push({ field: 'profile.name', message: 'Name must be 50 characters or less' });
+  if (config.profile.name && config.profile.name.length > PROFILE_NAME_MAX_LENGTH) {
+    errors.push({ field: 'profile.name', message: `Name must be ${PROFILE_NAME_MAX_LENGTH} characters or less` });
   }
   
-  if (config.profile.bio && config.profile.bio.length > 160) {
-    errors.push({ field: 'profile.bio', message: 'Bio must be 160 characters or less' });
+  // Formatting markup doesn't count towards the limits, only the text visitors see
+  if (config.profile.bio && getRichTextPlainText(config.profile.bio).length > PROFILE_BIO_MAX_LENGTH) {
+    errors.push({ field: 'profile.bio', message: `Bio must be ${PROFILE_BIO_MAX_LENGTH} characters or less` });
   }
   
   if (config.profile.avatar && !validateImageUrl(config.profile.avatar)) {
@@ -134,49 +377,131 @@ export function validateConfig(config: LinkTreeConfig): ValidationResult {
     errors.push({ field: 'profile.location', message: 'Location must be 50 characters or less' });
   }
   
+  if (config.profile.contact) {
+    validateContact(config.profile.contact, errors);
+  }
+  
   // Validate links
   if (config.links.length > 20) {
     errors.push({ field: 'links', message: 'Maximum 20 links allowed' });
   }
   
-  config.links.forEach((link, index) => {
-    if (!link.title || link.title.length === 0) {
-      errors.push({ field: `links[${index}].title`, message: 'Link title is required' });
-    }
-    
-    if (link.title && link.title.length > 50) {
-      errors.push({ field: `links[${index}].title`, message: 'Link title must be 50 characters or less' });
-    }
-    
-    if (!link.url || !validateUrl(link.url)) {
-      errors.push({ field: `links[${index}].url`, message: 'Invalid URL format' });
-    }
-    
-    if (link.url && link.url.length > 2048) {
-      errors.push({ field: `links[${index}].url`, message: 'URL too long (max 2048 characters)' });
-    }
+  config.links.forEach((block, index) => {
+    const prefix = `links[${index}]`;
     
-    if (link.description && link.description.length > 100) {
-      errors.push({ field: `links[${index}].description`, message: 'Description must be 100 characters or less' });
+    switch (block.type) {
+      case 'heading':
+        if (!block.text || block.text.length === 0) {
+          errors.push({ field: `${prefix}.text`, message: 'Heading text is required' });
+        }
+        
+        if (block.text && block.text.length > HEADING_TEXT_MAX_LENGTH) {
+          errors.push({ field: `${prefix}.text`, message: `Heading text must be ${HEADING_TEXT_MAX_LENGTH} characters or less` });
+        }
+        break;
+        
+      case 'divider':
+        break;
+        
+      case 'video':
+      case 'music':
+      case 'map':
+        validateEmbed(block, prefix, errors);
+        break;
+        
+      case undefined:
+      case 'link':
+        if (!block.title || block.title.length === 0) {
+          errors.push({ field: `${prefix}.title`, message: 'Link title is required' });
+        }
+        
+        if (block.title && block.title.length > LINK_TITLE_MAX_LENGTH) {
+          errors.push({ field: `${prefix}.title`, message: `Link title must be ${LINK_TITLE_MAX_LENGTH} characters or less` });
+        }
+        
+        if (!block.url || !validateLinkUrl(block.url)) {
+          errors.push({ field: `${prefix}.url`, message: 'Invalid URL format' });
+        }
+        
+        if (block.url && block.url.length > 2048) {
+          errors.push({ field: `${prefix}.url`, message: 'URL too long (max 2048 characters)' });
+        }
+        
+        if (block.description && getRichTextPlainText(block.description).length > LINK_DESCRIPTION_MAX_LENGTH) {
+          errors.push({ field: `${prefix}.description`, message: `Description must be ${LINK_DESCRIPTION_MAX_LENGTH} characters or less` });
+        }
+        
+        if (block.icon && !parseLinkIcon(block.icon)) {
+          errors.push({
+            field: `${prefix}.icon`,
+            message: 'Icon must be a brand or Lucide icon name (e.g. spotify, book-open), a single emoji, or an https:// image URL'
+          });
+        }
+        
+        validateLinkSchedule(block, prefix, errors, warnings);
+        break;
+        
+      default:
+        errors.push({
+          field: `${prefix}.type`,
+          message: `Block type must be one of: ${LINK_BLOCK_TYPES.join(', ')}`,
+        });
     }
   });
   
   // Validate social media
   Object.entries(config.socialMedia).forEach(([platform, username]) => {
-    if (username && !validateSocialMediaUsername(platform, username)) {
-      errors.push({ field: `socialMedia.${platform}`, message: `Invalid ${platform} username format` });
+    const definition = getSocialPlatform(platform);
+    
+    if (!definition) {
+      warnings.push({ field: `socialMedia.${platform}`, message: `Unknown social platform "${platform}" is ignored` });
+    } else if (username && !validateSocialMediaUsername(platform, username)) {
+      errors.push({
+        field: `socialMedia.${platform}`,
+        message: `Invalid ${definition.name} username format (e.g. ${definition.example})`
+      });
     }
   });
   
   // Validate theme
-  if (!validateHexColor(config.theme.primaryColor)) {
-    errors.push({ field: 'theme.primaryColor', message: 'Invalid hex color format' });
+  if (config.theme.preset && !isThemePreset(config.theme.preset)) {
+    errors.push({
+      field: 'theme.preset',
+      message: `Unknown theme preset "${config.theme.preset}" (available: ${THEME_PRESET_NAMES.join(', ')})`
+    });
+  }
+  
+  const colorFields = ['primaryColor', 'secondaryColor', 'accentColor', 'textColor', 'surfaceColor'] as const;
+  colorFields.forEach(field => {
+    const color = config.theme[field];
+    if ((field === 'primaryColor' || color) && !validateColor(color as string)) {
+      errors.push({ field: `theme.${field}`, message: 'Invalid color format (use hex, rgb() or hsl())' });
+    }
+  });
+  
+  if (config.theme.gradient !== undefined) {
+    validateGradient(config.theme.gradient, errors);
+  }
+  
+  if (!isFontFamily(config.theme.fontFamily)) {
+    errors.push({ field: 'theme.fontFamily', message: `Font family must be one of: ${FONT_FAMILY_NAMES.join(', ')}` });
+  }
+  
+  // An empty name and URL is a cleared custom font
+  if (config.theme.customFont && (config.theme.customFont.name || config.theme.customFont.url)) {
+    validateCustomFont(config.theme.customFont, errors);
   }
   
   if (config.theme.backgroundImage && !validateImageUrl(config.theme.backgroundImage)) {
     errors.push({ field: 'theme.backgroundImage', message: 'Invalid background image URL' });
   }
   
+  if (config.theme.contrastLevel !== undefined && !CONTRAST_LEVELS.includes(config.theme.contrastLevel)) {
+    errors.push({ field: 'theme.contrastLevel', message: `Contrast level must be one of: ${CONTRAST_LEVELS.join(', ')}` });
+  } else {
+    validateThemeContrast(config, warnings);
+  }
+  
   // Validate SEO
   if (config.seo.title && config.seo.title.length > 60) {
     warnings.push({ field: 'seo.title', message: 'Title longer than 60 characters may be truncated in search results' });
@@ -190,6 +515,35 @@ export function validateConfig(config: LinkTreeConfig): ValidationResult {
     errors.push({ field: 'seo.favicon', message: 'Invalid favicon URL format' });
   }
   
+  if (config.seo.siteUrl && !(validateUrl(config.seo.siteUrl) && /^https?:\/\//.test(config.seo.siteUrl))) {
+    errors.push({ field: 'seo.siteUrl', message: 'Site URL must be an absolute http(s) URL, e.g. https://links.example.com' });
+  }
+  
+  // Validate PWA
+  const pwa = config.advanced.pwa;
+  if (pwa) {
+    (['themeColor', 'backgroundColor'] as const).forEach(field => {
+      if (pwa[field] && !validateColor(pwa[field] as string)) {
+        errors.push({ field: `advanced.pwa.${field}`, message: 'Invalid color format (use hex, rgb() or hsl())' });
+      }
+    });
+    
+    if (pwa.display !== undefined && !PWA_DISPLAY_MODES.includes(pwa.display)) {
+      errors.push({ field: 'advanced.pwa.display', message: `Display mode must be one of: ${PWA_DISPLAY_MODES.join(', ')}` });
+    }
+    
+    if (pwa.orientation !== undefined && !PWA_ORIENTATIONS.includes(pwa.orientation)) {
+      errors.push({ field: 'advanced.pwa.orientation', message: `Orientation must be one of: ${PWA_ORIENTATIONS.join(', ')}` });
+    }
+  }
+  
+  if (config.advanced.enablePWA && getPWAShortName(config).length > PWA_SHORT_NAME_MAX_LENGTH) {
+    warnings.push({
+      field: 'advanced.pwa.shortName',
+      message: `App name longer than ${PWA_SHORT_NAME_MAX_LENGTH} characters may be cut off on home screens; set a short name`
+    });
+  }
+  
   // Validate analytics
   if (config.analytics.googleAnalyticsId && !validateGoogleAnalyticsId(config.analytics.googleAnalyticsId)) {
     errors.push({ field: 'analytics.googleAnalyticsId', message: 'Invalid Google Analytics ID format (should be G-XXXXXXXXXX)' });
@@ -199,6 +553,43 @@ export function validateConfig(config: LinkTreeConfig): ValidationResult {
     errors.push({ field: 'analytics.facebookPixelId', message: 'Invalid Facebook Pixel ID format' });
   }
   
+  if (config.analytics.endpoint && !validateAnalyticsEndpoint(config.analytics.endpoint)) {
+    errors.push({ field: 'analytics.endpoint', message: 'Analytics endpoint must be an HTTPS URL or a path starting with /' });
+  }
+  
+  if (config.analytics.transport && !ANALYTICS_TRANSPORTS.includes(config.analytics.transport)) {
+    errors.push({
+      field: 'analytics.transport',
+      message: `Analytics transport must be one of: ${ANALYTICS_TRANSPORTS.join(', ')}`,
+    });
+  }
+  
+  if (config.analytics.transport === 'beacon' && !config.analytics.endpoint) {
+    warnings.push({ field: 'analytics.endpoint', message: 'Beacon transport requires an endpoint; click tracking is disabled' });
+  }
+  
+  if (config.analytics.batchSize !== undefined &&
+      (!Number.isInteger(config.analytics.batchSize) || config.analytics.batchSize < 1 || config.analytics.batchSize > 100)) {
+    errors.push({ field: 'analytics.batchSize', message: 'Batch size must be a whole number between 1 and 100' });
+  }
+  
+  if (config.analytics.flushInterval !== undefined &&
+      (!Number.isInteger(config.analytics.flushInterval) || config.analytics.flushInterval < 1000)) {
+    errors.push({ field: 'analytics.flushInterval', message: 'Flush interval must be at least 1000 milliseconds' });
+  }
+  
+  if (config.analytics.privacyPolicyUrl && !validateUrl(config.analytics.privacyPolicyUrl)) {
+    errors.push({ field: 'analytics.privacyPolicyUrl', message: 'Invalid privacy policy URL format' });
+  }
+  
+  if (config.analytics.requireConsent === false &&
+      (config.analytics.googleAnalyticsId || config.analytics.facebookPixelId)) {
+    warnings.push({
+      field: 'analytics.requireConsent',
+      message: 'Third-party analytics load without asking for consent; this is not allowed for EU visitors'
+    });
+  }
+  
   return {
     isValid: errors.length === 0,
     errors,
@@ -207,7 +598,8 @@ export function validateConfig(config: LinkTreeConfig): ValidationResult {
 }
 
 /**
- * Sanitize configuration object to prevent XSS
+ * Normalize configuration text and drop unknown link blocks and invalid social accounts.
+ * Nothing is HTML-escaped here; React and the encoders in encoding.ts escape text per output.
  */
 export function sanitizeConfig(config: LinkTreeConfig): LinkTreeConfig {
   return {
@@ -216,13 +608,12 @@ export function sanitizeConfig(config: LinkTreeConfig): LinkTreeConfig {
       bio: sanitizeText(config.profile.bio),
       avatar: config.profile.avatar, // URLs don't need HTML sanitization
       location: config.profile.location ? sanitizeText(config.profile.location) : undefined,
+      contact: config.profile.contact ? sanitizeContact(config.profile.contact) : undefined,
     },
-    links: config.links.map(link => ({
-      ...link,
-      title: sanitizeText(link.title),
-      description: link.description ? sanitizeText(link.description) : undefined,
-    })),
-    socialMedia: config.socialMedia, // Usernames are validated separately
+    links: config.links
+      .filter(block => block.type === undefined || LINK_BLOCK_TYPES.includes(block.type))
+      .map(sanitizeLinkBlock),
+    socialMedia: sanitizeSocialMedia(config.socialMedia),
     theme: config.theme, // Colors and enums don't need sanitization
     layout: config.layout, // Enums don't need sanitization
     seo: {
@@ -230,12 +621,105 @@ export function sanitizeConfig(config: LinkTreeConfig): LinkTreeConfig {
       description: sanitizeText(config.seo.description),
       keywords: sanitizeText(config.seo.keywords),
       favicon: config.seo.favicon,
+      siteUrl: config.seo.siteUrl,
     },
     analytics: config.analytics, // IDs are validated separately
-    advanced: config.advanced, // Boolean values don't need sanitization
+    accessibility: config.accessibility, // Boolean values don't need sanitization
+    advanced: sanitizeAdvanced(config.advanced),
+  };
+}
+
+/**
+ * Normalize contact details; empty entries are dropped
+ */
+function sanitizeContact(contact: ProfileContactConfig): ProfileContactConfig {
+  const sanitizeList = (values: unknown): string[] => Array.isArray(values)
+    ? values.filter((value): value is string => typeof value === 'string').map(sanitizeText).filter(Boolean)
+    : [];
+  
+  return {
+    emails: sanitizeList(contact.emails),
+    phones: sanitizeList(contact.phones),
+    organization: contact.organization ? sanitizeText(contact.organization) : undefined,
+    title: contact.title ? sanitizeText(contact.title) : undefined,
+    website: contact.website ? contact.website.trim() : undefined,
   };
 }
 
+/**
+ * Normalize advanced settings; only the PWA names and description are text
+ */
+function sanitizeAdvanced(advanced: AdvancedConfig): AdvancedConfig {
+  const { pwa } = advanced;
+  if (!pwa) {
+    return advanced;
+  }
+  
+  return {
+    ...advanced,
+    pwa: {
+      ...pwa,
+      name: pwa.name ? sanitizeText(pwa.name) : undefined,
+      shortName: pwa.shortName ? sanitizeText(pwa.shortName) : undefined,
+      description: pwa.description ? sanitizeText(pwa.description) : undefined,
+    },
+  };
+}
+
+/**
+ * Sanitize a single entry of the links list according to its block type
+ */
+export function sanitizeLinkBlock(block: LinkBlockConfig): LinkBlockConfig {
+  const enabled = typeof block.enabled === 'boolean' ? block.enabled : true;
+  
+  switch (block.type) {
+    case 'heading':
+      return { type: 'heading', text: sanitizeText(block.text), enabled };
+    case 'divider':
+      return { type: 'divider', enabled };
+    case 'map':
+      return {
+        type: 'map',
+        title: sanitizeText(block.title),
+        location: sanitizeText(block.location),
+        description: block.description ? sanitizeText(block.description) : undefined,
+        enabled,
+      };
+    case 'video':
+    case 'music':
+      return {
+        type: block.type,
+        title: sanitizeText(block.title),
+        url: block.url,
+        description: block.description ? sanitizeText(block.description) : undefined,
+        enabled,
+      };
+    default:
+      return {
+        ...block,
+        type: 'link',
+        title: sanitizeText(block.title),
+        description: block.description ? sanitizeText(block.description) : undefined,
+        enabled,
+      };
+  }
+}
+
+/**
+ * Keep only known platforms with valid usernames
+ */
+export function sanitizeSocialMedia(socialMedia: SocialMediaConfig): SocialMediaConfig {
+  const sanitized: SocialMediaConfig = {};
+  
+  Object.entries(socialMedia).forEach(([platform, username]) => {
+    if (isSocialPlatform(platform) && typeof username === 'string' && username.trim() && validateSocialMediaUsername(platform, username.trim())) {
+      sanitized[platform] = username.trim();
+    }
+  });
+  
+  return sanitized;
+}
+
 /**
  * Check if URL is safe for external linking
  */
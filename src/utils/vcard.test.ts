@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { createVCard, escapeVCardText, foldVCardLine, getVCardFileName, hasContactDetails } from './vcard';
+import type { ProfileConfig } from '@/types/config';
+
+const PROFILE: ProfileConfig = {
+  name: 'Alex Johnson',
+  bio: '',
+  avatar: '',
+};
+
+// Content lines of a card, with folded lines joined again (RFC 6350, section 3.2)
+function unfold(card: string): string[] {
+  return card.replace(/\r\n /g, '').split('\r\n').slice(0, -1);
+}
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe('escapeVCardText', () => {
+  it('escapes backslashes, commas, semicolons and line breaks', () => {
+    expect(escapeVCardText('a\\b,c;d')).toBe('a\\\\b\\,c\\;d');
+    expect(escapeVCardText('one\r\ntwo\nthree\rfour')).toBe('one\\ntwo\\nthree\\nfour');
+  });
+
+  it('escapes the backslash before the characters it introduces', () => {
+    expect(escapeVCardText('\\,')).toBe('\\\\\\,');
+  });
+});
+
+describe('foldVCardLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `NOTE:${'a'.repeat(70)}`;
+    expect(foldVCardLine(line)).toBe(line);
+  });
+
+  it('folds longer lines at 75 octets, continuation lines starting with a space', () => {
+    const line = `NOTE:${'a'.repeat(200)}`;
+    const lines = foldVCardLine(line).split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(octets(lines[0])).toBe(75);
+    lines.slice(1).forEach(part => {
+      expect(part.startsWith(' ')).toBe(true);
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    });
+    expect(lines.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('never splits a multi-byte UTF-8 character', () => {
+    // 3 octets per character, so 75 octets don't divide evenly after the 5-octet "NOTE:"
+    const line = `NOTE:${'€'.repeat(60)}😀${'ü'.repeat(40)}`;
+    const lines = foldVCardLine(line).split('\r\n');
+
+    lines.forEach(part => {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      // A split character would decode to U+FFFD
+      expect(new TextDecoder().decode(new TextEncoder().encode(part))).toBe(part);
+      expect(part).not.toMatch(/[\uD800-\uDBFF]$/);
+    });
+    expect(lines.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('createVCard', () => {
+  it('writes a minimal card when optional fields are missing', () => {
+    expect(createVCard(PROFILE)).toBe('BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Alex Johnson\r\nEND:VCARD\r\n');
+  });
+
+  it('ends every line with CRLF', () => {
+    const card = createVCard({
+      ...PROFILE,
+      bio: 'Line one\nLine two',
+      contact: { emails: ['alex@example.com'], phones: ['+1 555 123 4567'] },
+    });
+
+    expect(card.endsWith('\r\n')).toBe(true);
+    expect(card.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes the contact details in order', () => {
+    const card = createVCard(
+      {
+        ...PROFILE,
+        bio: '**Designer**, writer; *runner*',
+        location: 'Berlin, Germany',
+        contact: {
+          organization: 'Acme; Inc.',
+          title: 'Lead designer',
+          emails: ['alex@example.com', 'not-an-email'],
+          phones: ['+44 20 7946 0958', '(030) 555-0100', 'call me'],
+          website: 'https://alex.example.com',
+        },
+      },
+      { pageUrl: 'https://links.example.com/' }
+    );
+
+    expect(unfold(card)).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Alex Johnson',
+      'ORG:Acme\\; Inc.',
+      'TITLE:Lead designer',
+      'EMAIL:alex@example.com',
+      'TEL;VALUE=uri:tel:+44-20-7946-0958',
+      'TEL;VALUE=text:(030) 555-0100',
+      'ADR:;;;Berlin\\, Germany;;;',
+      'URL:https://alex.example.com',
+      'URL:https://links.example.com/',
+      'NOTE:Designer\\, writer\\; runner',
+      'END:VCARD',
+    ]);
+  });
+
+  it('writes the page URL once when it is also the website', () => {
+    const card = createVCard(
+      { ...PROFILE, contact: { website: 'https://alex.example.com' } },
+      { pageUrl: 'https://alex.example.com' }
+    );
+    expect(unfold(card).filter(line => line.startsWith('URL:'))).toEqual(['URL:https://alex.example.com']);
+  });
+
+  it('embeds the photo as a data URI, folded like any other line', () => {
+    const photo = `data:image/jpeg;base64,${'A'.repeat(300)}`;
+    const card = createVCard(PROFILE, { photo });
+
+    expect(unfold(card)).toContain(`PHOTO:${photo}`);
+    card.split('\r\n').forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+  });
+
+  it('leaves PHOTO out when the avatar could not be read', () => {
+    expect(createVCard(PROFILE, { photo: null })).not.toContain('PHOTO');
+  });
+});
+
+describe('hasContactDetails', () => {
+  it('is false without any detail', () => {
+    expect(hasContactDetails(undefined)).toBe(false);
+    expect(hasContactDetails({ emails: [''], phones: [] })).toBe(false);
+  });
+
+  it('is true with a single detail', () => {
+    expect(hasContactDetails({ title: 'Designer' })).toBe(true);
+    expect(hasContactDetails({ phones: ['+1 555 123 4567'] })).toBe(true);
+  });
+});
+
+describe('getVCardFileName', () => {
+  it('names the file after the profile', () => {
+    expect(getVCardFileName('Alex Johnson')).toBe('alex-johnson.vcf');
+    expect(getVCardFileName('???')).toBe('contact.vcf');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * vCard generation for LinkTree Modern
+ * Builds a vCard 4.0 (RFC 6350) card from the profile and its contact details so visitors can
+ * save the page owner to their address book. The card is generated in the browser.
+ */
+
+import type { ProfileConfig, ProfileContactConfig } from '@/types/config';
+import { getDownloadFileName } from './download';
+import { getRichTextPlainText } from './rich-text';
+
+// Content lines longer than this many octets are folded (RFC 6350, section 3.2)
+const VCARD_LINE_LENGTH = 75;
+
+// Embedded photos are scaled down to keep the card small enough for address books
+const VCARD_PHOTO_SIZE = 256;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9(][0-9 ().-]{2,30}[0-9]$/;
+
+export const CONTACT_TEXT_MAX_LENGTH = 100;
+
+/**
+ * Whether a contact email address is usable
+ */
+export function isContactEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value) && value.length <= 254;
+}
+
+/**
+ * Whether a contact phone number is usable: digits with optional leading +, spaces,
+ * dots, dashes and parentheses
+ */
+export function isContactPhone(value: string): boolean {
+  return PHONE_PATTERN.test(value);
+}
+
+/**
+ * Whether the profile has any contact details to put on a card
+ */
+export function hasContactDetails(contact: ProfileContactConfig | undefined): contact is ProfileContactConfig {
+  return !!contact && (
+    (contact.emails ?? []).some(Boolean) ||
+    (contact.phones ?? []).some(Boolean) ||
+    !!contact.organization ||
+    !!contact.title ||
+    !!contact.website
+  );
+}
+
+/**
+ * Escapes a text value: backslashes, commas, semicolons and line breaks (RFC 6350, section 3.4)
+ */
+export function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, each continuation starting with a
+ * space. Multi-byte characters are never split.
+ */
+export function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // The leading space of a continuation line counts towards its length
+    const limit = lines.length === 0 ? VCARD_LINE_LENGTH : VCARD_LINE_LENGTH - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/**
+ * TEL property for a phone number: a tel: URI for international numbers, text otherwise,
+ * since a tel: URI for a local number would need its phone context
+ */
+function getPhoneLine(phone: string): string {
+  if (phone.startsWith('+')) {
+    // RFC 3966 allows - . ( ) as visual separators, but no spaces
+    return `TEL;VALUE=uri:tel:${phone.replace(/\s+/g, '-')}`;
+  }
+  return `TEL;VALUE=text:${escapeVCardText(phone)}`;
+}
+
+/**
+ * vCard 4.0 for the profile. The photo is a data: URI from getVCardPhoto; the page URL is added
+ * as a second URL when it differs from the contact website.
+ */
+export function createVCard(
+  profile: ProfileConfig,
+  { photo, pageUrl }: { photo?: string | null; pageUrl?: string } = {}
+): string {
+  const contact = profile.contact ?? {};
+  const lines = ['BEGIN:VCARD', 'VERSION:4.0', `FN:${escapeVCardText(profile.name)}`];
+
+  if (contact.organization) {
+    lines.push(`ORG:${escapeVCardText(contact.organization)}`);
+  }
+  if (contact.title) {
+    lines.push(`TITLE:${escapeVCardText(contact.title)}`);
+  }
+  (contact.emails ?? []).filter(isContactEmail).forEach(email => {
+    lines.push(`EMAIL:${escapeVCardText(email)}`);
+  });
+  (contact.phones ?? []).filter(isContactPhone).forEach(phone => {
+    lines.push(getPhoneLine(phone));
+  });
+  if (profile.location) {
+    // Free-text location as the locality; the other six address components stay empty
+    lines.push(`ADR:;;;${escapeVCardText(profile.location)};;;`);
+  }
+
+  const urls = [contact.website, pageUrl].filter((url): url is string => !!url);
+  new Set(urls).forEach(url => lines.push(`URL:${url}`));
+
+  const note = getRichTextPlainText(profile.bio);
+  if (note) {
+    lines.push(`NOTE:${escapeVCardText(note)}`);
+  }
+  if (photo) {
+    lines.push(`PHOTO:${photo}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.map(foldVCardLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Avatar as a JPEG data: URI for the card, scaled down to 256 pixels, or null when it can't be
+ * read: the image failed to load, or it is on another host that doesn't allow CORS
+ */
+export function getVCardPhoto(src: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onerror = () => resolve(null);
+    image.onload = () => {
+      // SVGs without intrinsic dimensions report 0
+      const width = image.naturalWidth || VCARD_PHOTO_SIZE;
+      const height = image.naturalHeight || VCARD_PHOTO_SIZE;
+      const scale = Math.min(1, VCARD_PHOTO_SIZE / Math.max(width, height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(null);
+        return;
+      }
+
+      // JPEG has no transparency; keep transparent avatars on white rather than black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        resolve(canvas.toDataURL('image/jpeg', 0.85));
+      } catch {
+        // Tainted canvas: the image came from another origin without CORS headers
+        resolve(null);
+      }
+    };
+    image.src = src;
+  });
+}
+
+/**
+ * File name for a saved card, e.g. "alex-johnson.vcf"
+ */
+export function getVCardFileName(name: string): string {
+  return getDownloadFileName(name, 'vcf', 'contact');
+}
@@ -2,6 +2,9 @@
 
 interface ImportMetaEnv {
   readonly VITE_APP_TITLE: string;
+  readonly VITE_ENABLE_CONFIG_PREVIEW?: string;
+  readonly VITE_ENABLE_EDITOR?: string;
+  readonly BASE_URL: string;
   readonly DEV: boolean;
   readonly PROD: boolean;
   readonly MODE: string;
@@ -15,4 +18,11 @@ interface ImportMeta {
     invalidate: () => void;
     on: (event: string, callback: Function) => void;
   };
-}
\ No newline at end of file
+}
+
+// Lucide icons referenced by the configuration, keyed by kebab-case name (scripts/icon-registry.js)
+declare module 'virtual:icon-registry' {
+  import type { LucideIcon } from 'lucide-react';
+  const icons: Record<string, LucideIcon>;
+  export default icons;
+}
@@ -10,6 +10,28 @@ resource "aws_s3_bucket" "site" {
   }
 }
 
+# default_root_object only covers "/", so serve /alice/ and /alice from /alice/index.html.
+# The editor at /edit has no page of its own; it is routed on the client from /index.html.
+resource "aws_cloudfront_function" "index_rewrite" {
+  name    = "index-rewrite-${var.site_id}"
+  runtime = "cloudfront-js-2.0"
+  publish = true
+  code    = <<-EOT
+    function handler(event) {
+      var request = event.request;
+      var uri = request.uri;
+      if (uri === '/edit' || uri === '/edit/') {
+        request.uri = '/index.html';
+      } else if (uri.endsWith('/')) {
+        request.uri = uri + 'index.html';
+      } else if (uri.lastIndexOf('.') < uri.lastIndexOf('/')) {
+        request.uri = uri + '/index.html';
+      }
+      return request;
+    }
+  EOT
+}
+
 resource "aws_cloudfront_distribution" "site" {
   origin {
     domain_name = aws_s3_bucket.site.bucket_regional_domain_name
@@ -19,6 +41,19 @@ resource "aws_cloudfront_distribution" "site" {
   enabled             = true
   default_root_object = "index.html"
 
+  # The S3 REST endpoint reports missing files as 403 without list permission, 404 otherwise
+  custom_error_response {
+    error_code         = 403
+    response_code      = 404
+    response_page_path = "/404.html"
+  }
+
+  custom_error_response {
+    error_code         = 404
+    response_code      = 404
+    response_page_path = "/404.html"
+  }
+
   aliases = ["${var.subdomain}.landing.com"]
 
   default_cache_behavior {
@@ -33,6 +68,11 @@ resource "aws_cloudfront_distribution" "site" {
       }
     }
 
+    function_association {
+      event_type   = "viewer-request"
+      function_arn = aws_cloudfront_function.index_rewrite.arn
+    }
+
     viewer_protocol_policy = "redirect-to-https"
     min_ttl                = 0
     default_ttl            = 3600